@@ -0,0 +1,32 @@
+import { BunSqliteKeyValue } from "../src"
+import { join } from "node:path"
+
+
+const dbDir = join(__dirname, "databases")
+const tenantsPath = join(dbDir, "tenants.sqlite")
+
+// One database file and one connection for all tenants
+const store = new BunSqliteKeyValue(tenantsPath)
+const tenantA = store.namespace("tenantA")
+const tenantB = store.namespace("tenantB")
+
+// Write settings
+tenantA.set("language", "de")
+tenantA.set("page-size", "A4")
+tenantB.set("language", "en")
+
+// Read settings
+console.log(tenantA.getItems())
+// -> [
+//   {key: "language", value: "de"},
+//   {key: "page-size", value: "A4"},
+// ]
+console.log(tenantB.getItems())  // -> [ {key: "language", value: "en"} ]
+
+// Count and clear per tenant
+console.log(tenantA.getCount())  // -> 2
+tenantB.clear()
+console.log(tenantA.getCount())  // -> 2
+
+// Explicitly close DB (also for the namespaces)
+store.close()
@@ -3,19 +3,21 @@ import { BunSqliteKeyValue } from "../src"
 
 const store = new BunSqliteKeyValue()
 
-store.db.transaction(() => {
-    store.set("key1", "100")
-    store.set("key2", "200")
-    store.set("key3", "300")
-})()
-
-store.db.transaction(() => {
-    const value1 = store.get("key1")
-    const value2 = store.get("key2")
-    const value3 = store.get("key3")
+store.transaction((tx) => {
+    tx.set("key1", "100")
+    tx.set("key2", "200")
+    tx.set("key3", "300")
+})
+
+const total = store.transaction((tx) => {
+    const value1 = tx.get("key1")
+    const value2 = tx.get("key2")
+    const value3 = tx.get("key3")
     const total = value1 + value2 + value3
-    store.set("total1", total)
-})()
+    tx.set("total1", total)
+    return total
+})
+console.log(total)  // -> "100200300"
 
 
 console.time("No transaction")
@@ -31,14 +33,14 @@ console.timeEnd("No transaction")
 
 console.time("With transaction")
 const store2 = new BunSqliteKeyValue()
-store2.db.transaction(() => {
+store2.transaction((tx) => {
     for (const index of Array(5000).keys()) {
-        store2.set("item-" + index, "value-" + index)
+        tx.set("item-" + index, "value-" + index)
     }
     for (const index of Array(5000).keys()) {
-        store2.get("item-" + index)
+        tx.get("item-" + index)
     }
-})()
+})
 console.timeEnd("With transaction")
 
 
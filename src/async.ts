@@ -0,0 +1,373 @@
+import { BunSqliteKeyValue } from "./index.ts"
+import type { Change, Item, Key, Options, ScanOptions, WorkerRequest, WorkerResponse } from "./interfaces.ts"
+
+
+const CHANGELOG_POLL_INTERVAL_MS: number = 50
+const CHANGELOG_BATCH_SIZE: number = 100
+const ITERATE_COUNT: number = 1000
+
+
+/**
+ * Asynchronous version of `BunSqliteKeyValue`.
+ *
+ * The store runs in a Bun Worker, so that large reads and writes
+ * do not block the event loop (e.g. of an HTTP server).
+ * The methods have the same names and parameters as those of `BunSqliteKeyValue`,
+ * but return promises.
+ *
+ * Arguments and results are copied with the structured clone algorithm.
+ * Therefore, custom serializers, the options `onCleanup` and `onListenerError`
+ * and the event methods `on()` and `off()` are not available,
+ * and buffers are returned as `Uint8Array`.
+ *
+ * @example
+ * ```typescript
+ * import { BunSqliteKeyValueAsync } from "bun-sqlite-key-value"
+ *
+ * const store = new BunSqliteKeyValueAsync("store.sqlite")
+ * await store.set("myKey", "my-value")
+ * await store.get("myKey") // --> "my-value"
+ * await store.close()
+ * ```
+ */
+export class BunSqliteKeyValueAsync {
+
+    private worker: Bun.Worker
+    private opened: Promise<void>
+    private nextRequestId: number = 1
+    private pendingRequests: Map<number, {resolve: (result: unknown) => void, reject: (error: Error) => void}> = new Map()
+    private proto = BunSqliteKeyValue.prototype  // Source of the method signatures
+
+
+    /**
+     * Starts the worker which opens the SQLite database
+     * either in memory or on the file system.
+     *
+     * @param {string} filename
+     *  The full path to the SQLite database to open.
+     *  Or pass an empty string (`""`), `":memory:"` or `undefined` for an in-memory database.
+     * @param {Options} options
+     *  Database options (without custom serializer)
+     */
+    constructor(filename?: string, options?: Options) {
+        if (typeof options?.serializer === "object") {
+            throw new TypeError("Custom serializers can't be passed to the worker.")
+        }
+        if (options?.onCleanup || options?.onListenerError) {
+            throw new TypeError("Callbacks can't be passed to the worker.")
+        }
+        const workerUrl = new URL(import.meta.url.endsWith(".ts") ? "./worker.ts" : "./worker.js", import.meta.url)
+        this.worker = new Worker(workerUrl) as Bun.Worker
+        this.worker.unref()
+        this.worker.addEventListener("message", (event) => {
+            this.handleResponse((event as MessageEvent<WorkerResponse>).data)
+        })
+        this.worker.addEventListener("error", (event) => {
+            this.rejectAll(new Error((event as ErrorEvent).message))
+        })
+        this.opened = this.request("open", [filename, options])
+    }
+
+
+    // Sends the method call to the worker.
+    // The worker only keeps the process alive while requests are pending.
+    private request<R = void>(method: WorkerRequest["method"], args: unknown[]): Promise<R> {
+        return new Promise<R>((resolve, reject) => {
+            const id = this.nextRequestId++
+            this.pendingRequests.set(id, {resolve: resolve as (result: unknown) => void, reject})
+            if (this.pendingRequests.size === 1) this.worker.ref()
+            this.worker.postMessage({id, method, args} satisfies WorkerRequest)
+        })
+    }
+
+
+    // Resolves or rejects the promise of the request
+    private handleResponse({id, result, error}: WorkerResponse) {
+        const pendingRequest = this.pendingRequests.get(id)
+        if (!pendingRequest) return
+        this.pendingRequests.delete(id)
+        if (!this.pendingRequests.size) this.worker.unref()
+        if (error === undefined) {
+            pendingRequest.resolve(result)
+        } else {
+            pendingRequest.reject(new Error(error))
+        }
+    }
+
+
+    // Rejects all pending requests (the worker has crashed)
+    private rejectAll(error: Error) {
+        this.pendingRequests.forEach(({reject}) => reject(error))
+        this.pendingRequests.clear()
+        this.worker.unref()
+    }
+
+
+    // Returns an asynchronous version of the method, which is executed by the worker
+    private remote<A extends unknown[], R>(method: (...args: A) => R): (...args: A) => Promise<Awaited<R>> {
+        const name = method.name as keyof BunSqliteKeyValue
+        return async (...args: A): Promise<Awaited<R>> => {
+            await this.opened
+            return this.request<Awaited<R>>(name, args)
+        }
+    }
+
+
+    /**
+     * Closes the database and terminates the worker.
+     */
+    async close() {
+        try {
+            await this.opened
+            await this.request("close", [])
+        } finally {
+            this.worker.terminate()
+        }
+    }
+
+
+    // Basic methods
+    deleteExpired = this.remote(this.proto.deleteExpired)
+    cleanupExpired = this.remote(this.proto.cleanupExpired)
+    delete = this.remote(this.proto.delete)
+    del = this.delete
+    clear = this.remote(this.proto.clear)
+    getCount = this.remote(this.proto.getCount)
+    count = this.getCount
+    getCountValid = this.remote(this.proto.getCountValid)
+    set = this.remote(this.proto.set)
+    setValue = this.set
+    put = this.set
+    setItems = this.remote(this.proto.setItems)
+    get = this.remote(this.proto.get)
+    getValue = this.get
+    getItem = this.remote(this.proto.getItem)
+    getItems = this.remote(this.proto.getItems)
+    getItemsArray = this.getItems
+    getValues = this.remote(this.proto.getValues)
+    getValuesArray = this.getValues
+    getItemsAsObject = this.remote(this.proto.getItemsAsObject)
+    getItemsObject = this.getItemsAsObject
+    getItemsAsMap = this.remote(this.proto.getItemsAsMap)
+    getItemsMap = this.getItemsAsMap
+    getValuesAsSet = this.remote(this.proto.getValuesAsSet)
+    getValuesSet = this.getValuesAsSet
+    has = this.remote(this.proto.has)
+    exists = this.has
+    getKeys = this.remote(this.proto.getKeys)
+    getExpiringItemsCount = this.remote(this.proto.getExpiringItemsCount)
+    deleteOldExpiringItems = this.remote(this.proto.deleteOldExpiringItems)
+    deleteOldestExpiringItems = this.deleteOldExpiringItems
+    incr = this.remote(this.proto.incr)
+    decr = this.remote(this.proto.decr)
+    append = this.remote(this.proto.append)
+    getSet = this.remote(this.proto.getSet)
+    getRandomKey = this.remote(this.proto.getRandomKey)
+    randomKey = this.getRandomKey
+    getRandomItem = this.remote(this.proto.getRandomItem)
+    randomItem = this.getRandomItem
+    getRandomValue = this.remote(this.proto.getRandomValue)
+    randomValue = this.getRandomValue
+    rename = this.remote(this.proto.rename)
+    setTtl = this.remote(this.proto.setTtl)
+    getTtl = this.remote(this.proto.getTtl)
+    expireAt = this.remote(this.proto.expireAt)
+    persist = this.remote(this.proto.persist)
+    getExpiresAt = this.remote(this.proto.getExpiresAt)
+
+
+    // Hash (Map Object)
+    hSet = this.remote(this.proto.hSet)
+    hGet = this.remote(this.proto.hGet)
+    hmSet = this.remote(this.proto.hmSet)
+    hmGet = this.remote(this.proto.hmGet)
+    hHasField = this.remote(this.proto.hHasField)
+    hExists = this.hHasField
+    hGetCount = this.remote(this.proto.hGetCount)
+    hLen = this.hGetCount
+    hGetFields = this.remote(this.proto.hGetFields)
+    hKeys = this.hGetFields
+    hGetValues = this.remote(this.proto.hGetValues)
+    hVals = this.hGetValues
+    hDelete = this.remote(this.proto.hDelete)
+    hIncr = this.remote(this.proto.hIncr)
+    hDecr = this.remote(this.proto.hDecr)
+
+
+    // List (Array Object)
+    lPush = this.remote(this.proto.lPush)
+    rPush = this.remote(this.proto.rPush)
+    lPop = this.remote(this.proto.lPop)
+    rPop = this.remote(this.proto.rPop)
+    lIndex = this.remote(this.proto.lIndex)
+    lLen = this.remote(this.proto.lLen)
+    lSet = this.remote(this.proto.lSet)
+    lRange = this.remote(this.proto.lRange)
+    lTrim = this.remote(this.proto.lTrim)
+    lRem = this.remote(this.proto.lRem)
+    lInsert = this.remote(this.proto.lInsert)
+    lPos = this.remote(this.proto.lPos)
+    lMove = this.remote(this.proto.lMove)
+    rPopLPush = this.remote(this.proto.rPopLPush)
+    bLPop = this.remote(this.proto.bLPop)
+    blPop = this.bLPop
+    bRPop = this.remote(this.proto.bRPop)
+    brPop = this.bRPop
+    bLMove = this.remote(this.proto.bLMove)
+
+
+    // Set (Set Object)
+    sAdd = this.remote(this.proto.sAdd)
+    sRem = this.remote(this.proto.sRem)
+    sCard = this.remote(this.proto.sCard)
+    sIsMember = this.remote(this.proto.sIsMember)
+    sMembers = this.remote(this.proto.sMembers)
+    sMove = this.remote(this.proto.sMove)
+    sPop = this.remote(this.proto.sPop)
+    sRandMember = this.remote(this.proto.sRandMember)
+    sInter = this.remote(this.proto.sInter)
+    sInterStore = this.remote(this.proto.sInterStore)
+    sUnion = this.remote(this.proto.sUnion)
+    sUnionStore = this.remote(this.proto.sUnionStore)
+    sDiff = this.remote(this.proto.sDiff)
+    sDiffStore = this.remote(this.proto.sDiffStore)
+
+
+    // Sorted Set
+    zAdd = this.remote(this.proto.zAdd)
+    zRem = this.remote(this.proto.zRem)
+    zScore = this.remote(this.proto.zScore)
+    zIncrBy = this.remote(this.proto.zIncrBy)
+    zRank = this.remote(this.proto.zRank)
+    zRevRank = this.remote(this.proto.zRevRank)
+    zRange = this.remote(this.proto.zRange)
+    zRevRange = this.remote(this.proto.zRevRange)
+    zRangeByScore = this.remote(this.proto.zRangeByScore)
+    zCard = this.remote(this.proto.zCard)
+    zPopMin = this.remote(this.proto.zPopMin)
+    zPopMax = this.remote(this.proto.zPopMax)
+
+
+    // Tags (Labels)
+    addTag = this.remote(this.proto.addTag)
+    deleteTag = this.remote(this.proto.deleteTag)
+    deleteTags = this.remote(this.proto.deleteTags)
+    deleteTaggedItems = this.remote(this.proto.deleteTaggedItems)
+    getTaggedKeys = this.remote(this.proto.getTaggedKeys)
+    getTaggedValues = this.remote(this.proto.getTaggedValues)
+    getTaggedItems = this.remote(this.proto.getTaggedItems)
+
+
+    // Scan
+    scan = this.remote(this.proto.scan)
+    scanItems = this.remote(this.proto.scanItems)
+
+
+    // Secondary indexes
+    createIndex = this.remote(this.proto.createIndex)
+    dropIndex = this.remote(this.proto.dropIndex)
+    findByIndex = this.remote(this.proto.findByIndex)
+
+
+    // Query
+    query = this.remote(this.proto.query)
+
+
+    // Versions
+    getVersion = this.remote(this.proto.getVersion)
+    setIfVersion = this.remote(this.proto.setIfVersion)
+    compareAndSet = this.remote(this.proto.compareAndSet)
+    watchKeys = this.remote(this.proto.watchKeys)
+
+
+    // Metadata
+    getItemMeta = this.remote(this.proto.getItemMeta)
+
+
+    // Eviction
+    getSize = this.remote(this.proto.getSize)
+    evict = this.remote(this.proto.evict)
+
+
+    // Changelog
+    getChanges = this.remote(this.proto.getChanges)
+    getLastChangeId = this.remote(this.proto.getLastChangeId)
+    deleteChanges = this.remote(this.proto.deleteChanges)
+
+
+    // Encryption
+    rotateEncryptionKey = this.remote(this.proto.rotateEncryptionKey)
+
+
+    /**
+     * Yields the logged changes in their order, also those of other processes.
+     * After all existing changes have been yielded, it waits for new changes.
+     *
+     * @category Changelog
+     * @param {number} sinceId
+     *  ID of the last change already known.
+     *  If `undefined`, only changes logged after the call are yielded.
+     * @param {AbortSignal} signal
+     *  Stops the iteration
+     * @returns {AsyncGenerator<Change>}
+     */
+    async *watch(sinceId?: number, signal?: AbortSignal): AsyncGenerator<Change> {
+        let lastId: number = sinceId ?? await this.getLastChangeId()
+        while (!signal?.aborted) {
+            const changes = await this.getChanges(lastId, CHANGELOG_BATCH_SIZE)
+            for (const change of changes) {
+                yield change
+                lastId = change.id
+                if (signal?.aborted) return
+            }
+            if (changes.length < CHANGELOG_BATCH_SIZE) {
+                await Bun.sleep(CHANGELOG_POLL_INTERVAL_MS)
+            }
+        }
+    }
+
+
+
+    /**
+     * Iterates over all keys, ordered by key.
+     * Each page of keys is requested from the worker with `scan()`.
+     *
+     * @category Scan
+     * @param {ScanOptions} options
+     *  `prefix`, `match` like `scan()`.
+     *  `count`: Number of keys read per page (default: 1000).
+     * @returns {AsyncGenerator<Key>}
+     */
+    async *iterateKeys(options?: ScanOptions): AsyncGenerator<Key> {
+        const scanOptions: ScanOptions = {...options, count: options?.count ?? ITERATE_COUNT}
+        let cursor: string | undefined
+        do {
+            const result = await this.scan(cursor, scanOptions)
+            cursor = result.cursor
+            yield* result.keys
+        } while (cursor !== undefined)
+    }
+
+
+    /**
+     * Iterates over all items (key, value), ordered by key.
+     * Each page of items is requested from the worker with `scanItems()`.
+     *
+     * @category Scan
+     * @param {ScanOptions} options
+     *  `prefix`, `match` like `scan()`.
+     *  `count`: Number of items read per page (default: 1000).
+     * @returns {AsyncGenerator<Item>}
+     */
+    async *iterateItems<T = any>(options?: ScanOptions): AsyncGenerator<Item<T>> {
+        const scanOptions: ScanOptions = {...options, count: options?.count ?? ITERATE_COUNT}
+        let cursor: string | undefined
+        do {
+            const result = await this.scanItems<T>(cursor, scanOptions)
+            cursor = result.cursor
+            yield* result.items
+        } while (cursor !== undefined)
+    }
+
+}
+
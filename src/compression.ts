@@ -0,0 +1,29 @@
+import type { CompressionAlgorithm } from "./interfaces.ts"
+
+
+// Compresses the serialized value with Bun's built-in compression functions
+export function compress(data: Uint8Array, algorithm: CompressionAlgorithm, level?: number): Uint8Array {
+    switch (algorithm) {
+        case "gzip":
+            return Bun.gzipSync(data as Uint8Array<ArrayBuffer>, {level} as Bun.ZlibCompressionOptions)
+        case "deflate":
+            return Bun.deflateSync(data as Uint8Array<ArrayBuffer>, {level} as Bun.ZlibCompressionOptions)
+        case "zstd":
+            return Bun.zstdCompressSync(data, {level})
+    }
+}
+
+
+// Decompresses the content of a `value` column
+export function decompress(data: Uint8Array, algorithm: CompressionAlgorithm): Uint8Array {
+    switch (algorithm) {
+        case "gzip":
+            return Bun.gunzipSync(data as Uint8Array<ArrayBuffer>)
+        case "deflate":
+            return Bun.inflateSync(data as Uint8Array<ArrayBuffer>)
+        case "zstd":
+            return Bun.zstdDecompressSync(data)
+        default:
+            throw new Error(`Unknown compression algorithm "${algorithm}".`)
+    }
+}
@@ -1,7 +1,75 @@
 import { Database, type Statement } from "bun:sqlite"
 import { dirname, resolve } from "node:path"
 import { existsSync, mkdirSync } from "node:fs"
-import type { DbOptions, Key, Record } from "./interfaces.ts"
+import type {
+    Change, DbOptions, EncodedValue, EncryptedValueRow, EvictionPolicy, Expiration, Field, ItemMeta, Key, Record,
+    ScoredMember, Tag, QueryOperators, QueryOptions, QueryOrder, QueryValue
+} from "./interfaces.ts"
+
+
+// Current time in milliseconds (SQL expression), rounded to avoid floating point errors
+const NOW_MS_SQL: string = "CAST(ROUND((julianday('now') - 2440587.5) * 86400000) AS INT)"
+
+
+// Sizes of the table rows in bytes (SQL expressions).
+// Texts are cast to BLOB, so that `length()` returns the number of bytes.
+// `row` qualifies the columns (e.g. `"NEW."` in triggers).
+const getItemBytesSql = (row: string = ""): string => `length(CAST(${row}key AS BLOB)) + COALESCE(length(${row}value), 0)`
+const getHashFieldBytesSql = (row: string = ""): string => `length(CAST(${row}field AS BLOB)) + COALESCE(length(${row}value), 0)`
+const getListElementBytesSql = (row: string = ""): string => `COALESCE(length(${row}value), 0)`
+const getZsetMemberBytesSql = (row: string = ""): string => `length(CAST(${row}member AS BLOB)) + 8`
+
+
+// Assignments of a read access (SQL expression)
+const RECORD_ACCESS_SQL: string = `
+    last_accessed = CASE WHEN $track THEN $now ELSE last_accessed END, 
+    hits = hits + $track, 
+    expires = CASE WHEN sliding_ttl IS NULL OR expires IS NULL THEN expires ELSE $now + sliding_ttl END
+`
+
+
+// Table names of a namespace.
+// The tables of the default namespace (`undefined`) have no prefix,
+// the tables of other namespaces are prefixed with `<namespace>_`.
+export function getTableNames(namespace?: string) {
+    if (namespace !== undefined && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(namespace)) {
+        throw new TypeError(
+            `Invalid namespace "${namespace}". Only letters, digits and underscores are allowed.`
+        )
+    }
+    const prefix: string = namespace === undefined ? "" : namespace + "_"
+    return {
+        prefix,
+        items: prefix + "items",
+        tags: prefix + "tags",
+        hash_fields: prefix + "hash_fields",
+        list_elements: prefix + "list_elements",
+        zset_members: prefix + "zset_members",
+        index_entries: prefix + "index_entries",
+        settings: prefix + "settings",
+        changelog: prefix + "changelog",
+        counters: prefix + "counters",
+    }
+}
+
+
+export type TableNames = ReturnType<typeof getTableNames>
+
+
+// Returns the names of all namespaces in the database file (`undefined` for the default namespace).
+// Each namespace has its own settings table.
+export function getNamespaces(db: Database): (string | undefined)[] {
+    const settingsTables = db.query(`
+        SELECT name 
+        FROM sqlite_master 
+        WHERE type = 'table' AND name GLOB '*settings'
+    `).all() as {name: string}[]
+    return settingsTables.flatMap(({name}) => {
+        if (name === "settings") return [undefined]
+        const match = /^([A-Za-z_][A-Za-z0-9_]*)_settings$/.exec(name)
+        return match ? [match[1]] : []
+    })
+}
 
 
 export function getDatabase(filename: string, dbOptions: DbOptions): Database {
@@ -20,83 +88,392 @@ export function getDatabase(filename: string, dbOptions: DbOptions): Database {
     db.run("PRAGMA journal_mode = WAL")
     db.run("PRAGMA foreign_keys = ON")
 
+    return db
+}
+
+
+// Creates the tables of a namespace
+export function createTables(db: Database, tables: TableNames, changelog?: boolean) {
+
     // Create items table
     db.run(`
-        CREATE TABLE IF NOT EXISTS items (
+        CREATE TABLE IF NOT EXISTS ${tables.items} (
             key TEXT NOT NULL PRIMARY KEY, 
             value BLOB, 
-            expires INT
+            expires INT,
+            type TEXT,
+            compression TEXT,
+            version INT NOT NULL DEFAULT 1,
+            created INT,
+            updated INT,
+            last_accessed INT,
+            hits INT NOT NULL DEFAULT 0,
+            sliding_ttl INT
         ) STRICT
     `)
     db.run(`
-        CREATE INDEX IF NOT EXISTS ix_items_expires ON items (expires)
+        CREATE INDEX IF NOT EXISTS ${tables.prefix}ix_items_expires ON ${tables.items} (expires)
     `)
 
+    // Add columns to items tables created by older versions
+    addMissingColumns(db, tables.items, {
+        type: "TEXT",
+        compression: "TEXT",
+        version: "INT NOT NULL DEFAULT 1",
+        created: "INT",
+        updated: "INT",
+        last_accessed: "INT",
+        hits: "INT NOT NULL DEFAULT 0",
+        sliding_ttl: "INT",
+    })
+
     // Create tags table
     db.run(`
-        CREATE TABLE IF NOT EXISTS tags (
+        CREATE TABLE IF NOT EXISTS ${tables.tags} (
             tag TEXT NOT NULL,
-            item_key TEXT NOT NULL REFERENCES items ON DELETE CASCADE ON UPDATE CASCADE,
+            item_key TEXT NOT NULL REFERENCES ${tables.items} ON DELETE CASCADE ON UPDATE CASCADE,
             PRIMARY KEY (tag, item_key)
         ) STRICT
     `)
     db.run(`
-        CREATE INDEX IF NOT EXISTS ix_tags_item_key ON tags (item_key)
+        CREATE INDEX IF NOT EXISTS ${tables.prefix}ix_tags_item_key ON ${tables.tags} (item_key)
     `)
 
-    return db
+    // Create hash fields table
+    db.run(`
+        CREATE TABLE IF NOT EXISTS ${tables.hash_fields} (
+            item_key TEXT NOT NULL REFERENCES ${tables.items} ON DELETE CASCADE ON UPDATE CASCADE,
+            field TEXT NOT NULL,
+            value BLOB,
+            compression TEXT,
+            PRIMARY KEY (item_key, field)
+        ) STRICT
+    `)
+    addMissingColumns(db, tables.hash_fields, {compression: "TEXT"})
+
+    // Create list elements table
+    db.run(`
+        CREATE TABLE IF NOT EXISTS ${tables.list_elements} (
+            item_key TEXT NOT NULL REFERENCES ${tables.items} ON DELETE CASCADE ON UPDATE CASCADE,
+            position INT NOT NULL,
+            value BLOB,
+            compression TEXT,
+            PRIMARY KEY (item_key, position)
+        ) STRICT
+    `)
+    addMissingColumns(db, tables.list_elements, {compression: "TEXT"})
+
+    // Create sorted set members table
+    db.run(`
+        CREATE TABLE IF NOT EXISTS ${tables.zset_members} (
+            item_key TEXT NOT NULL REFERENCES ${tables.items} ON DELETE CASCADE ON UPDATE CASCADE,
+            member TEXT NOT NULL,
+            score REAL NOT NULL,
+            PRIMARY KEY (item_key, member)
+        ) STRICT
+    `)
+    db.run(`
+        CREATE INDEX IF NOT EXISTS ${tables.prefix}ix_zset_members_score ON ${tables.zset_members} (item_key, score, member)
+    `)
+
+    // Create index entries table (secondary indexes on values)
+    db.run(`
+        CREATE TABLE IF NOT EXISTS ${tables.index_entries} (
+            name TEXT NOT NULL,
+            value ANY NOT NULL,
+            item_key TEXT NOT NULL REFERENCES ${tables.items} ON DELETE CASCADE ON UPDATE CASCADE,
+            PRIMARY KEY (name, value, item_key)
+        ) STRICT
+    `)
+    db.run(`
+        CREATE INDEX IF NOT EXISTS ${tables.prefix}ix_index_entries_item_key ON ${tables.index_entries} (item_key)
+    `)
+
+    // Create settings table
+    db.run(`
+        CREATE TABLE IF NOT EXISTS ${tables.settings} (
+            name TEXT NOT NULL PRIMARY KEY,
+            value TEXT NOT NULL
+        ) STRICT
+    `)
+
+    // Create changelog table
+    db.run(`
+        CREATE TABLE IF NOT EXISTS ${tables.changelog} (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            operation TEXT NOT NULL,
+            key TEXT NOT NULL,
+            timestamp INT NOT NULL
+        ) STRICT
+    `)
+
+    // Create or drop the triggers which write the changes of the items into the changelog table.
+    // The triggers are stored in the database file, so they also log the changes of other processes.
+    if (changelog === true) {
+        createChangelogTriggers(db, tables)
+    } else if (changelog === false) {
+        dropChangelogTriggers(db, tables)
+    }
 }
 
 
-export function getStatements(db: Database) {
+// Creates the triggers which write the changes of the items table into the changelog table
+// Existing triggers are replaced, so that triggers created by older versions are updated.
+// Each write increases the version exactly once, so only version changes are logged.
+// Updates which don't change the version (e.g. access statistics) are not logged.
+// Items created for hashes, lists and sorted sets start with version 0 (not logged)
+// and are logged as insert when the write method increases the version.
+function createChangelogTriggers(db: Database, tables: TableNames) {
+    dropChangelogTriggers(db, tables)
+    db.run(`
+        CREATE TRIGGER IF NOT EXISTS ${tables.prefix}changelog_items_insert 
+        AFTER INSERT ON ${tables.items}
+        WHEN NEW.version > 0
+        BEGIN
+            INSERT INTO ${tables.changelog} (operation, key, timestamp) VALUES (
+                CASE WHEN NEW.version > 1 THEN 'update' ELSE 'insert' END,
+                NEW.key,
+                ${NOW_MS_SQL}
+            );
+        END
+    `)
+    db.run(`
+        CREATE TRIGGER IF NOT EXISTS ${tables.prefix}changelog_items_update 
+        AFTER UPDATE ON ${tables.items}
+        WHEN OLD.key = NEW.key AND OLD.version IS NOT NEW.version
+        BEGIN
+            INSERT INTO ${tables.changelog} (operation, key, timestamp) VALUES (
+                CASE WHEN OLD.version = 0 THEN 'insert' ELSE 'update' END,
+                NEW.key,
+                ${NOW_MS_SQL}
+            );
+        END
+    `)
+    db.run(`
+        CREATE TRIGGER IF NOT EXISTS ${tables.prefix}changelog_items_rename 
+        AFTER UPDATE ON ${tables.items}
+        WHEN OLD.key <> NEW.key
+        BEGIN
+            INSERT INTO ${tables.changelog} (operation, key, timestamp) VALUES ('delete', OLD.key, ${NOW_MS_SQL});
+            INSERT INTO ${tables.changelog} (operation, key, timestamp) VALUES ('insert', NEW.key, ${NOW_MS_SQL});
+        END
+    `)
+    db.run(`
+        CREATE TRIGGER IF NOT EXISTS ${tables.prefix}changelog_items_delete 
+        AFTER DELETE ON ${tables.items}
+        BEGIN
+            INSERT INTO ${tables.changelog} (operation, key, timestamp) VALUES ('delete', OLD.key, ${NOW_MS_SQL});
+        END
+    `)
+}
+
+
+// Creates the counters of the items and their size in bytes and the index of the eviction order.
+// The counters are updated by triggers, so that the limits `maxItems` and `maxBytes` are checked
+// without reading all items. The triggers are stored in the database file,
+// so they also count the writes of other processes (and of stores without limits).
+// The existing items are only counted when the counters are created.
+export function createEvictionTables(db: Database, tables: TableNames, policy: EvictionPolicy) {
+    db.transaction(() => {
+        db.run(`
+            CREATE TABLE IF NOT EXISTS ${tables.counters} (
+                id INT NOT NULL PRIMARY KEY CHECK (id = 1),
+                items INT NOT NULL,
+                bytes INT NOT NULL
+            ) STRICT
+        `)
+        db.run(`
+            INSERT OR IGNORE INTO ${tables.counters} (id, items, bytes) 
+            SELECT 1, (SELECT COUNT(*) FROM ${tables.items}), (${getSizeSql(tables)})
+        `)
+
+        // `setItem` replaces existing items. The replaced item is deleted without delete trigger,
+        // so it is subtracted before the insert. Only `setItem` inserts items with version > 0.
+        // (The rows of the replaced item in the other tables are deleted with delete triggers.)
+        db.run(`
+            CREATE TRIGGER IF NOT EXISTS ${tables.prefix}counters_items_replace 
+            BEFORE INSERT ON ${tables.items}
+            WHEN NEW.version > 0
+            BEGIN
+                UPDATE ${tables.counters} 
+                SET items = items - 1, bytes = bytes - (SELECT ${getItemBytesSql()} FROM ${tables.items} WHERE key = NEW.key) 
+                WHERE EXISTS (SELECT 1 FROM ${tables.items} WHERE key = NEW.key);
+            END
+        `)
+        db.run(`
+            CREATE TRIGGER IF NOT EXISTS ${tables.prefix}counters_items_insert 
+            AFTER INSERT ON ${tables.items}
+            BEGIN
+                UPDATE ${tables.counters} SET items = items + 1, bytes = bytes + ${getItemBytesSql("NEW.")};
+            END
+        `)
+        db.run(`
+            CREATE TRIGGER IF NOT EXISTS ${tables.prefix}counters_items_delete 
+            AFTER DELETE ON ${tables.items}
+            BEGIN
+                UPDATE ${tables.counters} SET items = items - 1, bytes = bytes - (${getItemBytesSql("OLD.")});
+            END
+        `)
+        const byteTables = [
+            ["items", getItemBytesSql, ["key", "value"]],
+            ["hash_fields", getHashFieldBytesSql, ["field", "value"]],
+            ["list_elements", getListElementBytesSql, ["value"]],
+            ["zset_members", getZsetMemberBytesSql, ["member"]],
+        ] as const
+        byteTables.forEach(([name, getBytesSql, columns]) => {
+            const table = tables[name]
+            db.run(`
+                CREATE TRIGGER IF NOT EXISTS ${tables.prefix}counters_${name}_update 
+                AFTER UPDATE OF ${columns.join(", ")} ON ${table}
+                BEGIN
+                    UPDATE ${tables.counters} SET bytes = bytes + (${getBytesSql("NEW.")}) - (${getBytesSql("OLD.")});
+                END
+            `)
+            if (name === "items") return
+            db.run(`
+                CREATE TRIGGER IF NOT EXISTS ${tables.prefix}counters_${name}_insert 
+                AFTER INSERT ON ${table}
+                BEGIN
+                    UPDATE ${tables.counters} SET bytes = bytes + (${getBytesSql("NEW.")});
+                END
+            `)
+            db.run(`
+                CREATE TRIGGER IF NOT EXISTS ${tables.prefix}counters_${name}_delete 
+                AFTER DELETE ON ${table}
+                BEGIN
+                    UPDATE ${tables.counters} SET bytes = bytes - (${getBytesSql("OLD.")});
+                END
+            `)
+        })
+
+        // Index of the eviction order (random eviction can't use an index)
+        const evictionIndex = EVICTION_INDEX[policy]
+        if (evictionIndex) {
+            db.run(`
+                CREATE INDEX IF NOT EXISTS ${tables.prefix}ix_items_evict_${policy.replace("-", "_")} 
+                ON ${tables.items} (${evictionIndex.expressions}) 
+                ${evictionIndex.where ? `WHERE ${evictionIndex.where}` : ""}
+            `)
+        }
+    })()
+}
+
+
+// Drops the changelog triggers. The changelog table itself is kept.
+function dropChangelogTriggers(db: Database, tables: TableNames) {
+    ["insert", "update", "rename", "delete"].forEach((name) => {
+        db.run(`DROP TRIGGER IF EXISTS ${tables.prefix}changelog_items_${name}`)
+    })
+}
+
+
+// Adds the columns that do not yet exist in the table
+function addMissingColumns(db: Database, table: string, columns: {[name: string]: string}) {
+    const existingColumns = db.query(`PRAGMA table_info(${table})`).all() as {name: string}[]
+    Object.entries(columns).forEach(([name, definition]) => {
+        if (existingColumns.some((column) => column.name === name)) return
+        db.run(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`)
+    })
+}
+
+
+// Size of all items in bytes (SQL expression)
+function getSizeSql(tables: TableNames): string {
+    return `
+        (SELECT COALESCE(SUM(${getItemBytesSql()}), 0) FROM ${tables.items}) + 
+        (SELECT COALESCE(SUM(${getHashFieldBytesSql()}), 0) FROM ${tables.hash_fields}) + 
+        (SELECT COALESCE(SUM(${getListElementBytesSql()}), 0) FROM ${tables.list_elements}) + 
+        (SELECT COALESCE(SUM(${getZsetMemberBytesSql()}), 0) FROM ${tables.zset_members})
+    `
+}
+
+
+export function getStatements(db: Database, tables: TableNames) {
     return {
         clear: db.query(`
-            DELETE FROM items
-        `) as Statement,
+            DELETE FROM ${tables.items}
+            RETURNING key
+        `) as Statement<{key: Key}>,
 
         delete: db.query(`
-            DELETE FROM items 
+            DELETE FROM ${tables.items} 
             WHERE key = $key
         `) as Statement,
 
         deleteExpired: db.query(`
-            DELETE FROM items 
+            DELETE FROM ${tables.items} 
             WHERE expires < $now
-        `) as Statement,
+            RETURNING key
+        `) as Statement<{key: Key}>,
+
+        // Deletes up to `$limit` expired items
+        deleteExpiredBatch: db.query(`
+            DELETE FROM ${tables.items} 
+            WHERE key IN (
+                SELECT key 
+                FROM ${tables.items} 
+                WHERE expires < $now 
+                LIMIT $limit
+            )
+            RETURNING key
+        `) as Statement<{key: Key}>,
 
+        // The version of a replaced item is increased, the creation time and the access statistics are kept
         setItem: db.query(`
-            INSERT OR REPLACE INTO items (
-                key, value, expires
+            INSERT OR REPLACE INTO ${tables.items} (
+                key, value, compression, expires, sliding_ttl, version, created, updated, last_accessed, hits
+            ) VALUES (
+                $key, $value, $compression, $expires, $slidingTtl,
+                COALESCE((SELECT version FROM ${tables.items} WHERE key = $key), 0) + 1,
+                COALESCE((SELECT created FROM ${tables.items} WHERE key = $key), ${NOW_MS_SQL}),
+                ${NOW_MS_SQL},
+                (SELECT last_accessed FROM ${tables.items} WHERE key = $key),
+                COALESCE((SELECT hits FROM ${tables.items} WHERE key = $key), 0)
+            )
+        `) as Statement,
+
+        // Creates or converts the item for data stored in separate tables.
+        // The expiration date of an existing item is not changed.
+        // The version is not changed (a new item starts with version 0),
+        // because the write method increases it afterwards (`setExpires` or `touchItem`).
+        setTypedItem: db.query(`
+            INSERT INTO ${tables.items} (
+                key, value, expires, type, version, created, updated
             ) VALUES (
-                $key, $value, $expires
+                $key, NULL, $expires, $type, 0, ${NOW_MS_SQL}, ${NOW_MS_SQL}
             )
+            ON CONFLICT (key) DO UPDATE SET 
+                value = NULL, 
+                compression = NULL, 
+                type = excluded.type, 
+                updated = excluded.updated
         `) as Statement,
 
         count: db.query(`
             SELECT COUNT(*) AS count 
-            FROM items
+            FROM ${tables.items}
         `) as Statement<{count: number}>,
 
         countValid: db.query(`
             SELECT COUNT(*) AS count 
-            FROM items 
+            FROM ${tables.items} 
             WHERE expires IS NULL OR expires > $now
         `) as Statement<{count: number}>,
 
         getAllItems: db.query(`
-            SELECT key, value, expires 
-            FROM items
+            SELECT key, value, compression, expires, type, sliding_ttl AS slidingTtl 
+            FROM ${tables.items}
         `) as Statement<Record>,
 
         getItem: db.query(`
-            SELECT value, expires 
-            FROM items 
+            SELECT value, compression, expires, type, sliding_ttl AS slidingTtl 
+            FROM ${tables.items} 
             WHERE key = $key
         `) as Statement<Omit<Record, "key">>,
 
         getItemsStartsWith: db.query(`
-            SELECT key, value, expires 
-            FROM items 
+            SELECT key, value, compression, expires, type, sliding_ttl AS slidingTtl 
+            FROM ${tables.items} 
             WHERE key = $key OR key >= $gte AND key < $lt
         `) as Statement<Record>,
         // gte = key + MIN_UTF8_CHAR
@@ -104,52 +481,58 @@ export function getStatements(db: Database) {
 
         getAllKeys: db.query(`
             SELECT key, expires 
-            FROM items
-        `) as Statement<Omit<Record, "value">>,
+            FROM ${tables.items}
+        `) as Statement<Omit<Record, "value" | "compression" | "type">>,
 
         getKey: db.query(`
             SELECT expires 
-            FROM items 
+            FROM ${tables.items} 
             WHERE key = $key
-        `) as Statement<Omit<Record, "key" | "value">>,
+        `) as Statement<Omit<Record, "key" | "value" | "compression" | "type">>,
 
         getKeysStartsWith: db.query(`
             SELECT key, expires 
-            FROM items 
+            FROM ${tables.items} 
             WHERE key = $key OR key >= $gte AND key < $lt
-        `) as Statement<Omit<Record, "value">>,
+        `) as Statement<Omit<Record, "value" | "compression" | "type">>,
 
         countExpiring: db.query(`
             SELECT COUNT(*) as count 
-            FROM items 
+            FROM ${tables.items} 
             WHERE expires IS NOT NULL
         `) as Statement<{count: number}>,
 
+        // Approximate size of all keys and values in bytes
+        getSize: db.query(`
+            SELECT ${getSizeSql(tables)} AS size
+        `) as Statement<{size: number}>,
+
         deleteExpiring: db.query(`
-            DELETE FROM items 
+            DELETE FROM ${tables.items} 
             WHERE key IN (
                 SELECT key 
-                FROM items
+                FROM ${tables.items}
                 WHERE expires IS NOT NULL
                 ORDER BY expires ASC
                 LIMIT $limit
             )
-        `) as Statement,
+            RETURNING key
+        `) as Statement<{key: Key}>,
 
         getRandomKey: db.query(`
             SELECT key 
-            FROM items 
+            FROM ${tables.items} 
             WHERE expires IS NULL OR expires > $now
             ORDER BY RANDOM() 
             LIMIT 1
-        `) as Statement<Omit<Record, "value" | "expires">>,
+        `) as Statement<Omit<Record, "value" | "compression" | "expires" | "type">>,
 
         getRandomItem: db.query(`
-            SELECT key, value 
-            FROM items
+            SELECT key, value, compression, type, sliding_ttl AS slidingTtl 
+            FROM ${tables.items}
             WHERE key = (
                 SELECT key 
-                FROM items 
+                FROM ${tables.items} 
                 WHERE expires IS NULL OR expires > $now
                 ORDER BY RANDOM() 
                 LIMIT 1
@@ -157,25 +540,25 @@ export function getStatements(db: Database) {
         `) as Statement<Omit<Record, "expires">>,
 
         rename: db.query(`
-            UPDATE items 
+            UPDATE ${tables.items} 
             SET key = $newKey 
             WHERE key = $oldKey
         `) as Statement,
 
         setExpires: db.query(`
-            UPDATE items 
-            SET expires = $expires 
+            UPDATE ${tables.items} 
+            SET expires = $expires, sliding_ttl = $slidingTtl, version = version + 1, updated = ${NOW_MS_SQL} 
             WHERE key = $key
         `) as Statement,
 
         getExpires: db.query(`
-            SELECT expires 
-            FROM items 
+            SELECT expires, sliding_ttl AS slidingTtl 
+            FROM ${tables.items} 
             WHERE key = $key
-        `) as Statement<{expires: number}>,
+        `) as Statement<Expiration>,
 
         addTag: db.query(`
-            INSERT OR IGNORE INTO tags (
+            INSERT OR IGNORE INTO ${tables.tags} (
                 tag, item_key
             ) VALUES (
                 $tag, $item_key
@@ -183,29 +566,593 @@ export function getStatements(db: Database) {
         `) as Statement,
 
         deleteTag: db.query(`
-            DELETE FROM tags 
+            DELETE FROM ${tables.tags} 
             WHERE tag = $tag AND item_key = $key
         `) as Statement,
 
         deleteAllTags: db.query(`
-            DELETE FROM tags 
+            DELETE FROM ${tables.tags} 
             WHERE item_key = $key
-        `) as Statement,
+            RETURNING tag
+        `) as Statement<{tag: Tag}>,
 
         getTaggedKeys: db.query(`
             SELECT item_key AS key 
-            FROM tags 
+            FROM ${tables.tags} 
             WHERE tag = $tag
         `) as Statement<{key: Key}>,
 
         deleteTaggedItems: db.query(`
-            DELETE FROM items 
+            DELETE FROM ${tables.items} 
             WHERE key IN (
                 SELECT item_key 
-                FROM tags 
+                FROM ${tables.tags} 
                 WHERE tag = $tag
             )
+            RETURNING key
+        `) as Statement<{key: Key}>,
+
+        dataVersion: db.query(`
+            PRAGMA data_version
+        `) as Statement<{data_version: number}>,
+
+        getSetting: db.query(`
+            SELECT value 
+            FROM ${tables.settings} 
+            WHERE name = $name
+        `) as Statement<{value: string}>,
+
+        setSetting: db.query(`
+            INSERT OR REPLACE INTO ${tables.settings} (
+                name, value
+            ) VALUES (
+                $name, $value
+            )
+        `) as Statement,
+
+        // Used to encrypt, decrypt or re-encrypt all values.
+        // The key and the field are part of the associated data of the encrypted values.
+        getItemValues: db.query(`
+            SELECT rowid, key, value 
+            FROM ${tables.items} 
+            WHERE value IS NOT NULL
+        `) as Statement<EncryptedValueRow>,
+
+        setItemValue: db.query(`
+            UPDATE ${tables.items} 
+            SET value = $value 
+            WHERE rowid = $rowid
+        `) as Statement,
+
+        getHashFieldValues: db.query(`
+            SELECT rowid, item_key AS key, field, value 
+            FROM ${tables.hash_fields} 
+            WHERE value IS NOT NULL
+        `) as Statement<EncryptedValueRow>,
+
+        setHashFieldValue: db.query(`
+            UPDATE ${tables.hash_fields} 
+            SET value = $value 
+            WHERE rowid = $rowid
+        `) as Statement,
+
+        getListElementValues: db.query(`
+            SELECT rowid, item_key AS key, value 
+            FROM ${tables.list_elements} 
+            WHERE value IS NOT NULL
+        `) as Statement<EncryptedValueRow>,
+
+        setListElementValue: db.query(`
+            UPDATE ${tables.list_elements} 
+            SET value = $value 
+            WHERE rowid = $rowid
+        `) as Statement,
+
+        // Used to re-encrypt the values of a renamed item
+        getItemValuesOfKey: db.query(`
+            SELECT rowid, key, value 
+            FROM ${tables.items} 
+            WHERE key = $key AND value IS NOT NULL
+        `) as Statement<EncryptedValueRow>,
+
+        getHashFieldValuesOfKey: db.query(`
+            SELECT rowid, item_key AS key, field, value 
+            FROM ${tables.hash_fields} 
+            WHERE item_key = $key AND value IS NOT NULL
+        `) as Statement<EncryptedValueRow>,
+
+        getListElementValuesOfKey: db.query(`
+            SELECT rowid, item_key AS key, value 
+            FROM ${tables.list_elements} 
+            WHERE item_key = $key AND value IS NOT NULL
+        `) as Statement<EncryptedValueRow>,
+
+        // Secondary index definitions (see `createIndex()`)
+        getIndexDefinitions: db.query(`
+            SELECT name, value 
+            FROM ${tables.settings} 
+            WHERE name GLOB 'index:*'
+        `) as Statement<{name: string, value: string}>,
+
+        // Marks the index definition as outdated. Only writes if it isn't marked yet
+        // and doesn't create definitions of dropped indexes.
+        markIndexStale: db.query(`
+            UPDATE ${tables.settings} 
+            SET value = json_set(value, '$.stale', json('true')) 
+            WHERE name = $name AND json_extract(value, '$.stale') IS NOT 1
+        `) as Statement,
+
+        deleteSetting: db.query(`
+            DELETE FROM ${tables.settings} 
+            WHERE name = $name
+        `) as Statement,
+
+        // Replaces the value of an existing item. Unlike `setItem`, the tags,
+        // the expiration time and the creation time of the item are kept.
+        updateItemValue: db.query(`
+            UPDATE ${tables.items} 
+            SET value = $value, compression = $compression, version = version + 1, updated = ${NOW_MS_SQL} 
+            WHERE key = $key
+        `) as Statement,
+
+        // Marks the item as changed: Increases the version and the changelog triggers log an update
+        touchItem: db.query(`
+            UPDATE ${tables.items} 
+            SET version = version + 1, updated = ${NOW_MS_SQL} 
+            WHERE key = $key
+        `) as Statement,
+
+        getItemMeta: db.query(`
+            SELECT created, updated, expires, version, last_accessed AS lastAccessed, hits, type 
+            FROM ${tables.items} 
+            WHERE key = $key
+        `) as Statement<ItemMeta>,
+
+        // Records the read access of an item (`$track`: 1 or 0)
+        // and renews the expiration time of an item with sliding TTL (the version is not changed)
+        recordAccess: db.query(`
+            UPDATE ${tables.items} 
+            SET ${RECORD_ACCESS_SQL} 
+            WHERE key = $key
+        `) as Statement,
+
+        // Records the read access of multiple items (`$keys` is a JSON array)
+        recordAccesses: db.query(`
+            UPDATE ${tables.items} 
+            SET ${RECORD_ACCESS_SQL} 
+            WHERE key IN (SELECT value FROM json_each($keys))
+        `) as Statement,
+
+        getVersion: db.query(`
+            SELECT version, expires 
+            FROM ${tables.items} 
+            WHERE key = $key
+        `) as Statement<{version: number, expires: number | null}>,
+
+        getChanges: db.query(`
+            SELECT id, operation, key, timestamp 
+            FROM ${tables.changelog} 
+            WHERE id > $sinceId 
+            ORDER BY id 
+            LIMIT $limit
+        `) as Statement<Change>,
+
+        getLastChangeId: db.query(`
+            SELECT seq AS id 
+            FROM sqlite_sequence 
+            WHERE name = '${tables.changelog}'
+        `) as Statement<{id: number}>,
+
+        deleteChanges: db.query(`
+            DELETE FROM ${tables.changelog} 
+            WHERE id <= $untilId
+        `) as Statement,
+
+        addIndexEntry: db.query(`
+            INSERT OR IGNORE INTO ${tables.index_entries} (
+                name, value, item_key
+            ) VALUES (
+                $name, $value, $key
+            )
         `) as Statement,
 
+        deleteIndexEntries: db.query(`
+            DELETE FROM ${tables.index_entries} 
+            WHERE name = $name
+        `) as Statement,
+
+        deleteIndexEntriesOfKey: db.query(`
+            DELETE FROM ${tables.index_entries} 
+            WHERE item_key = $key
+        `) as Statement,
+
+        setHashField: db.query(`
+            INSERT INTO ${tables.hash_fields} (
+                item_key, field, value, compression
+            ) VALUES (
+                $key, $field, $value, $compression
+            )
+            ON CONFLICT (item_key, field) DO UPDATE SET 
+                value = excluded.value, 
+                compression = excluded.compression
+        `) as Statement,
+
+        getHashField: db.query(`
+            SELECT value, compression 
+            FROM ${tables.hash_fields} 
+            WHERE item_key = $key AND field = $field
+        `) as Statement<EncodedValue>,
+
+        getHashFields: db.query(`
+            SELECT field, value, compression 
+            FROM ${tables.hash_fields} 
+            WHERE item_key = $key 
+            ORDER BY rowid
+        `) as Statement<{field: Field} & EncodedValue>,
+
+        getHashFieldNames: db.query(`
+            SELECT field 
+            FROM ${tables.hash_fields} 
+            WHERE item_key = $key 
+            ORDER BY rowid
+        `) as Statement<{field: Field}>,
+
+        countHashFields: db.query(`
+            SELECT COUNT(*) AS count 
+            FROM ${tables.hash_fields} 
+            WHERE item_key = $key
+        `) as Statement<{count: number}>,
+
+        deleteHashField: db.query(`
+            DELETE FROM ${tables.hash_fields} 
+            WHERE item_key = $key AND field = $field
+        `) as Statement,
+
+        getListBounds: db.query(`
+            SELECT 
+                (SELECT MIN(position) FROM ${tables.list_elements} WHERE item_key = $key) AS first, 
+                (SELECT MAX(position) FROM ${tables.list_elements} WHERE item_key = $key) AS last
+        `) as Statement<{first: number | null, last: number | null}>,
+
+        addListElement: db.query(`
+            INSERT INTO ${tables.list_elements} (
+                item_key, position, value, compression
+            ) VALUES (
+                $key, $position, $value, $compression
+            )
+        `) as Statement,
+
+        setListElement: db.query(`
+            UPDATE ${tables.list_elements} 
+            SET value = $value, compression = $compression 
+            WHERE item_key = $key AND position = $position
+        `) as Statement,
+
+        getListElement: db.query(`
+            SELECT value, compression 
+            FROM ${tables.list_elements} 
+            WHERE item_key = $key AND position = $position
+        `) as Statement<EncodedValue>,
+
+        getListElements: db.query(`
+            SELECT value, compression 
+            FROM ${tables.list_elements} 
+            WHERE item_key = $key 
+            ORDER BY position
+        `) as Statement<EncodedValue>,
+
+        getListElementsRange: db.query(`
+            SELECT value, compression 
+            FROM ${tables.list_elements} 
+            WHERE item_key = $key AND position >= $from AND position <= $to 
+            ORDER BY position
+        `) as Statement<EncodedValue>,
+
+        getListPositions: db.query(`
+            SELECT position 
+            FROM ${tables.list_elements} 
+            WHERE item_key = $key AND position > $from 
+            ORDER BY position
+        `) as Statement<{position: number}>,
+
+        moveListElement: db.query(`
+            UPDATE ${tables.list_elements} 
+            SET position = $newPosition 
+            WHERE item_key = $key AND position = $position
+        `) as Statement,
+
+        deleteListElementsRange: db.query(`
+            DELETE FROM ${tables.list_elements} 
+            WHERE item_key = $key AND position >= $from AND position <= $to
+        `) as Statement,
+
+        setSortedSetMember: db.query(`
+            INSERT INTO ${tables.zset_members} (
+                item_key, member, score
+            ) VALUES (
+                $key, $member, $score
+            )
+            ON CONFLICT (item_key, member) DO UPDATE SET 
+                score = excluded.score
+        `) as Statement,
+
+        getSortedSetScore: db.query(`
+            SELECT score 
+            FROM ${tables.zset_members} 
+            WHERE item_key = $key AND member = $member
+        `) as Statement<{score: number}>,
+
+        deleteSortedSetMember: db.query(`
+            DELETE FROM ${tables.zset_members} 
+            WHERE item_key = $key AND member = $member
+        `) as Statement,
+
+        countSortedSetMembers: db.query(`
+            SELECT COUNT(*) AS count 
+            FROM ${tables.zset_members} 
+            WHERE item_key = $key
+        `) as Statement<{count: number}>,
+
+        getSortedSetRank: db.query(`
+            SELECT COUNT(*) AS count 
+            FROM ${tables.zset_members} 
+            WHERE item_key = $key AND (score < $score OR score = $score AND member < $member)
+        `) as Statement<{count: number}>,
+
+        getSortedSetRevRank: db.query(`
+            SELECT COUNT(*) AS count 
+            FROM ${tables.zset_members} 
+            WHERE item_key = $key AND (score > $score OR score = $score AND member > $member)
+        `) as Statement<{count: number}>,
+
+        getSortedSetRange: db.query(`
+            SELECT member, score 
+            FROM ${tables.zset_members} 
+            WHERE item_key = $key 
+            ORDER BY score, member 
+            LIMIT $limit OFFSET $offset
+        `) as Statement<ScoredMember>,
+
+        getSortedSetRevRange: db.query(`
+            SELECT member, score 
+            FROM ${tables.zset_members} 
+            WHERE item_key = $key 
+            ORDER BY score DESC, member DESC 
+            LIMIT $limit OFFSET $offset
+        `) as Statement<ScoredMember>,
+
+        getSortedSetRangeByScore: db.query(`
+            SELECT member, score 
+            FROM ${tables.zset_members} 
+            WHERE item_key = $key AND score >= $min AND score <= $max 
+            ORDER BY score, member 
+            LIMIT $limit OFFSET $offset
+        `) as Statement<ScoredMember>,
+
+    }
+}
+
+
+export type Statements = ReturnType<typeof getStatements>
+
+
+// Returns the statement that reads one page of keys (or items) ordered by key.
+// The conditions determine which parameters the statement expects:
+// - `cursor`: `$cursor` --> only keys after the cursor
+// - `prefix`: `$prefix`, `$lt` --> only keys starting with the prefix
+// - `match`: `$match` --> only keys matching the glob pattern
+// Statements are cached by bun:sqlite, so each variant is only prepared once.
+export function getScanStatement(
+    db: Database,
+    tables: TableNames,
+    withValues: boolean,
+    conditions: {cursor: boolean, prefix: boolean, match: boolean}
+) {
+    const where: string[] = []
+    if (conditions.cursor) where.push("key > $cursor")
+    if (conditions.prefix) where.push("key >= $prefix AND key < $lt")
+    if (conditions.match) where.push("key GLOB $match")
+    return db.query(`
+        SELECT key, ${withValues ? "value, compression, type, " : ""}expires 
+        FROM ${tables.items} 
+        ${where.length ? "WHERE " + where.join(" AND ") : ""} 
+        ORDER BY key 
+        LIMIT $count
+    `) as Statement<Record>
+}
+
+
+// Returns the statement that reads the keys (or items) matching the select options, ordered by key.
+// The conditions determine which parameters the statement expects:
+// - `prefix`: `$prefix`, `$prefixLt` --> only keys starting with the prefix
+// - `glob`: `$glob` --> only keys matching the glob pattern
+// - `gte`: `$gte` --> only keys greater than or equal to `$gte`
+// - `lt`: `$lt` --> only keys less than `$lt`
+// - `after`: `$after` --> only keys after `$after` (in the sort order)
+// - `unexpired`: `$now` --> only keys which have not expired
+// - `limit`: `$limit`, `$offset` --> only one page of keys
+export function getSelectStatement(
+    db: Database,
+    tables: TableNames,
+    withValues: boolean,
+    conditions: {
+        prefix: boolean, glob: boolean, gte: boolean, lt: boolean, after: boolean,
+        unexpired: boolean, limit: boolean, reverse: boolean, meta: boolean
+    }
+) {
+    const where: string[] = []
+    if (conditions.prefix) where.push("key >= $prefix AND key < $prefixLt")
+    if (conditions.glob) where.push("key GLOB $glob")
+    if (conditions.gte) where.push("key >= $gte")
+    if (conditions.lt) where.push("key < $lt")
+    if (conditions.after) where.push(conditions.reverse ? "key < $after" : "key > $after")
+    if (conditions.unexpired) where.push("(expires IS NULL OR expires >= $now)")
+    return db.query(`
+        SELECT key, ${withValues ? "value, compression, type, sliding_ttl AS slidingTtl, " : ""}expires
+            ${conditions.meta ? ", created, updated, version, last_accessed AS lastAccessed, hits" : ""} 
+        FROM ${tables.items} 
+        ${where.length ? "WHERE " + where.join(" AND ") : ""} 
+        ORDER BY key ${conditions.reverse ? "DESC" : "ASC"} 
+        ${conditions.limit ? "LIMIT $limit OFFSET $offset" : ""}
+    `) as Statement<Record>
+}
+
+
+// Returns the statement that reads the items whose index entries match the value or range.
+// The conditions determine which parameters the statement expects:
+// - `value`: `$value` --> only entries equal to the value
+// - `gt`, `gte`, `lt`, `lte`: `$gt`, `$gte`, `$lt`, `$lte` --> only entries within the range
+// - `valueType`: only entries of this storage class, because SQLite sorts
+//   all numbers before all strings (e.g. `{gte: 10}` must not return strings)
+export function getIndexStatement(
+    db: Database,
+    tables: TableNames,
+    conditions: {
+        value: boolean, gt: boolean, gte: boolean, lt: boolean, lte: boolean,
+        valueType: "number" | "text" | undefined
+    }
+) {
+    const where: string[] = ["entries.name = $name"]
+    if (conditions.value) where.push("entries.value = $value")
+    if (conditions.gt) where.push("entries.value > $gt")
+    if (conditions.gte) where.push("entries.value >= $gte")
+    if (conditions.lt) where.push("entries.value < $lt")
+    if (conditions.lte) where.push("entries.value <= $lte")
+    if (conditions.valueType === "number") where.push("typeof(entries.value) IN ('integer', 'real')")
+    if (conditions.valueType === "text") where.push("typeof(entries.value) = 'text'")
+    return db.query(`
+        SELECT item.key, item.value, item.compression, item.expires, item.type, item.sliding_ttl AS slidingTtl 
+        FROM ${tables.index_entries} AS entries 
+        JOIN ${tables.items} AS item ON item.key = entries.item_key 
+        WHERE ${where.join(" AND ")} 
+        GROUP BY item.key 
+        ORDER BY MIN(entries.value), item.key
+    `) as Statement<Record>
+}
+
+
+// SQL comparison operators of the `query()` operators
+const QUERY_OPERATORS: {[operator in "eq" | "ne" | "gt" | "gte" | "lt" | "lte"]: string} = {
+    eq: "=",
+    ne: "!=",
+    gt: ">",
+    gte: ">=",
+    lt: "<",
+    lte: "<=",
+}
+
+
+// Returns the statement and the parameters of `query()`.
+// The values must be stored as uncompressed JSON text (JSON serializer).
+// The JSON paths and values are passed as parameters (`$p0`, `$p1`...), never as SQL text.
+export function getQueryStatement(db: Database, tables: TableNames, options: QueryOptions, now: number) {
+    const params: {[name: string]: string | number | null} = {now}
+    let paramCount: number = 0
+    // Adds a parameter and returns its name
+    const addParam = (value: QueryValue): string => {
+        const name = `p${paramCount++}`
+        params[name] = typeof value === "boolean" ? Number(value) : value
+        return "$" + name
+    }
+    // SQL expression which reads the JSON path of the value
+    const extract = (path: string, functionName: string = "json_extract"): string => {
+        const jsonPath = path.startsWith("$") ? path : "$." + path
+        return `${functionName}(CAST(value AS TEXT), ${addParam(jsonPath)})`
+    }
+
+    const where: string[] = [
+        "type IS NULL",
+        "compression IS NULL",
+        "(expires IS NULL OR expires >= $now)",
+    ]
+    for (const [path, condition] of Object.entries(options.where ?? {})) {
+        const operators: QueryOperators = condition !== null && typeof condition === "object"
+            ? condition
+            : {eq: condition}
+        for (const [operator, operand] of Object.entries(operators)) {
+            if (operand === undefined) continue
+            if (operator === "exists") {
+                where.push(`${extract(path, "json_type")} IS ${operand ? "NOT NULL" : "NULL"}`)
+            } else if (operator === "in") {
+                const list = (operand as QueryValue[]).map((value) => addParam(value)).join(", ")
+                where.push(`${extract(path)} IN (${list})`)
+            } else if (operand === null && (operator === "eq" || operator === "ne")) {
+                where.push(`${extract(path)} IS ${operator === "eq" ? "NULL" : "NOT NULL"}`)
+            } else if (operator in QUERY_OPERATORS) {
+                const sqlOperator = QUERY_OPERATORS[operator as keyof typeof QUERY_OPERATORS]
+                where.push(`${extract(path)} ${sqlOperator} ${addParam(operand as QueryValue)}`)
+            } else {
+                throw new TypeError(`Unknown query operator "${operator}".`)
+            }
+        }
+    }
+
+    const orderBy: string[] = [options.orderBy ?? []].flat().map((order: string | QueryOrder) => {
+        const {path, reverse} = typeof order === "string" ? {path: order, reverse: false} : order
+        return `${extract(path)} ${reverse ? "DESC" : "ASC"}`
+    })
+    orderBy.push("key")
+
+    const statement = db.query(`
+        SELECT key, value, compression, expires, type, sliding_ttl AS slidingTtl 
+        FROM ${tables.items} 
+        WHERE ${where.join(" AND ")} 
+        ORDER BY ${orderBy.join(", ")} 
+        LIMIT ${addParam(options.limit ?? -1)} OFFSET ${addParam(options.offset ?? 0)}
+    `) as Statement<Record>
+    return {statement, params}
+}
+
+
+// Order in which the eviction policies evict the items.
+// Ties are broken by the rowid (order of insertion).
+const LAST_USED_SQL: string = "MAX(COALESCE(last_accessed, 0), COALESCE(updated, 0))"
+const EVICTION_ORDER: {[policy in EvictionPolicy]: string} = {
+    "lru": `${LAST_USED_SQL}, rowid`,
+    "lfu": `hits, ${LAST_USED_SQL}, rowid`,
+    "fifo": "COALESCE(created, 0), rowid",
+    "volatile-lru": `${LAST_USED_SQL}, rowid`,
+    "allkeys-random": "random()",
+}
+// Indexed expressions of the eviction orders. The rowid is part of each index.
+// The index of `volatile-lru` only contains items with an expiration time.
+const EVICTION_INDEX: {[policy in EvictionPolicy]: {expressions: string, where?: string} | undefined} = {
+    "lru": {expressions: LAST_USED_SQL},
+    "lfu": {expressions: `hits, ${LAST_USED_SQL}`},
+    "fifo": {expressions: "COALESCE(created, 0)"},
+    "volatile-lru": {expressions: LAST_USED_SQL, where: "expires IS NOT NULL"},
+    "allkeys-random": undefined,
+}
+
+
+// Returns the statement that reads the counters of the items and their size in bytes (see `createEvictionTables()`)
+export function getCountersStatement(db: Database, tables: TableNames) {
+    return db.query(`
+        SELECT items, bytes 
+        FROM ${tables.counters} 
+        WHERE id = 1
+    `) as Statement<{items: number, bytes: number}>
+}
+
+
+// Returns the statement that reads the next items to evict (`$limit`) with their sizes in bytes.
+// The item `$excludedKey` (e.g. the item just written) is never evicted.
+// `volatile-lru` only evicts items with an expiration time.
+export function getEvictionStatement(db: Database, tables: TableNames, policy: EvictionPolicy) {
+    if (!(policy in EVICTION_ORDER)) {
+        throw new TypeError(`Unknown eviction policy "${policy}".`)
     }
+    return db.query(`
+        SELECT 
+            key, 
+            ${getItemBytesSql()} 
+                + COALESCE((SELECT SUM(${getHashFieldBytesSql()}) FROM ${tables.hash_fields} WHERE item_key = key), 0) 
+                + COALESCE((SELECT SUM(${getListElementBytesSql()}) FROM ${tables.list_elements} WHERE item_key = key), 0) 
+                + COALESCE((SELECT SUM(${getZsetMemberBytesSql()}) FROM ${tables.zset_members} WHERE item_key = key), 0) 
+                AS size 
+        FROM ${tables.items} 
+        WHERE key IS NOT $excludedKey ${policy === "volatile-lru" ? "AND expires IS NOT NULL" : ""} 
+        ORDER BY ${EVICTION_ORDER[policy]} 
+        LIMIT $limit
+    `) as Statement<{key: Key, size: number}>
 }
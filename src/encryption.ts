@@ -0,0 +1,69 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto"
+import type { EncryptionKey } from "./interfaces.ts"
+
+
+const ALGORITHM = "aes-256-gcm"
+const KEY_LENGTH: number = 32
+const NONCE_LENGTH: number = 12
+const TAG_LENGTH: number = 16
+const SALT_LENGTH: number = 16
+
+
+// Parameters of the scrypt key derivation. They are recorded in the database,
+// so that the parameters of new databases can be changed without breaking existing databases.
+export interface KdfParams {
+    salt: string  // Base64
+    N: number
+    r: number
+    p: number
+}
+
+
+// Returns the scrypt parameters with a new random salt
+export function createKdfParams(): KdfParams {
+    return {salt: randomBytes(SALT_LENGTH).toString("base64"), N: 2 ** 15, r: 8, p: 1}
+}
+
+
+// Returns the 256 bit AES key.
+// Strings are stretched with scrypt and the recorded salt, byte arrays must be exactly 32 bytes long.
+export function getEncryptionKey(key: EncryptionKey, kdfParams: KdfParams): Buffer {
+    if (typeof key === "string") {
+        const {salt, N, r, p} = kdfParams
+        return scryptSync(key, Buffer.from(salt, "base64"), KEY_LENGTH, {N, r, p, maxmem: 256 * N * r})
+    }
+    if (key.byteLength !== KEY_LENGTH) {
+        throw new Error("The encryption key must be 32 bytes long.")
+    }
+    return Buffer.from(key)
+}
+
+
+// Returns the associated data which binds the cipher text to its location
+// (e.g. `["hash", key, field]`), so that cipher texts can't be swapped between rows.
+export function getAssociatedData(location: string[]): Buffer {
+    return Buffer.from(JSON.stringify(location))
+}
+
+
+// Encrypts the data with AES-GCM, a random nonce and the associated data.
+// Result: nonce (12 bytes) + cipher text + authentication tag (16 bytes)
+export function encrypt(data: Uint8Array, key: Buffer, associatedData: Uint8Array): Uint8Array {
+    const nonce = randomBytes(NONCE_LENGTH)
+    const cipher = createCipheriv(ALGORITHM, key, nonce, {authTagLength: TAG_LENGTH})
+    cipher.setAAD(associatedData)
+    return Buffer.concat([nonce, cipher.update(data), cipher.final(), cipher.getAuthTag()])
+}
+
+
+// Decrypts data encrypted with `encrypt()`.
+// Raises an error if the key or the associated data is wrong or the data was manipulated.
+export function decrypt(data: Uint8Array, key: Buffer, associatedData: Uint8Array): Uint8Array {
+    const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+    const nonce = buffer.subarray(0, NONCE_LENGTH)
+    const tag = buffer.subarray(buffer.length - TAG_LENGTH)
+    const decipher = createDecipheriv(ALGORITHM, key, nonce, {authTagLength: TAG_LENGTH})
+    decipher.setAAD(associatedData)
+    decipher.setAuthTag(tag)
+    return Buffer.concat([decipher.update(buffer.subarray(NONCE_LENGTH, buffer.length - TAG_LENGTH)), decipher.final()])
+}
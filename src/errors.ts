@@ -4,12 +4,36 @@
  * @category Errors
  */
 export const INVALID_COUNT_ERROR_LABEL: string = "[INVALID_COUNT_ERROR]"
+/**
+ * This error is raised if the score of a sorted set member is not a number (or `NaN`).
+ *
+ * @category Errors
+ */
+export const INVALID_SCORE_ERROR_LABEL: string = "[INVALID_SCORE_ERROR]"
 /**
  * This error is raised if the value is not an array.
  *
  * @category Errors
  */
 export const NO_ARRAY_ERROR_LABEL: string = "[NO_ARRAY_ERROR]"
+/**
+ * This error is raised if the value is not a hash (Map object).
+ *
+ * @category Errors
+ */
+export const NO_MAP_ERROR_LABEL: string = "[NO_MAP_ERROR]"
+/**
+ * This error is raised if the value is not a set.
+ *
+ * @category Errors
+ */
+export const NO_SET_ERROR_LABEL: string = "[NO_SET_ERROR]"
+/**
+ * This error is raised if sets can't be stored with the serializer (`string` or `raw`).
+ *
+ * @category Errors
+ */
+export const SET_NOT_SUPPORTED_ERROR_LABEL: string = "[SET_NOT_SUPPORTED_ERROR]"
 /**
  * This error is raised if the item does not exist.
  *
@@ -25,3 +49,51 @@ export const ITEM_NOT_EXISTS: string = ITEM_NOT_EXISTS_ERROR_LABEL  // Deprecate
 export const INDEX_OUT_OF_RANGE_ERROR_LABEL: string = "[INDEX_OUT_OF_RANGE]"
 
 
+/**
+ * This error is raised if the value is not a sorted set.
+ *
+ * @category Errors
+ */
+export const NO_SORTED_SET_ERROR_LABEL: string = "[NO_SORTED_SET_ERROR]"
+
+
+/**
+ * This error is raised if the database was written with another serializer.
+ *
+ * @category Errors
+ */
+export const SERIALIZER_MISMATCH_ERROR_LABEL: string = "[SERIALIZER_MISMATCH_ERROR]"
+
+
+/**
+ * This error is raised if the encryption key is missing or does not match the encrypted database.
+ *
+ * @category Errors
+ */
+export const ENCRYPTION_KEY_ERROR_LABEL: string = "[ENCRYPTION_KEY_ERROR]"
+
+
+/**
+ * This error is raised if `query()` can't read the stored values with SQLite
+ * (no JSON serializer, compression or encryption).
+ *
+ * @category Errors
+ */
+export const QUERY_NOT_SUPPORTED_ERROR_LABEL: string = "[QUERY_NOT_SUPPORTED_ERROR]"
+
+
+/**
+ * This error is raised if a watched key has changed before the transaction started.
+ *
+ * @category Errors
+ */
+export const KEY_CHANGED_ERROR_LABEL: string = "[KEY_CHANGED_ERROR]"
+
+
+/**
+ * This error is raised if a secondary index can't be created or read
+ * (encrypted database, unknown extractor function or outdated index entries).
+ *
+ * @category Errors
+ */
+export const INDEX_ERROR_LABEL: string = "[INDEX_ERROR]"
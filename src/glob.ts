@@ -0,0 +1,93 @@
+const SPECIAL_CHARS: string = "\\^$.|?*+()[]{}/"
+const SPECIAL_LIST_CHARS: string = "\\^[]-"
+
+
+// Escapes a character for the use in a regular expression
+function escapeChar(char: string, specialChars: string = SPECIAL_CHARS): string {
+    return specialChars.includes(char) ? "\\" + char : char
+}
+
+
+/**
+ * Converts a glob pattern into a regular expression.
+ *
+ * The wildcards are the same as those of the SQLite `GLOB` operator:
+ * - `*` matches any number of characters (also none)
+ * - `?` matches exactly one character
+ * - `[abc]` or `[a-z]` matches one of the characters in the brackets
+ * - `[^abc]` matches one character which is not in the brackets
+ *
+ * The comparison is case-sensitive.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const chars = Array.from(pattern)
+    let source: string = ""
+    for (let index = 0; index < chars.length; index++) {
+        const char = chars[index]
+        if (char === "*") {
+            source += ".*"
+        } else if (char === "?") {
+            source += "."
+        } else if (char === "[") {
+            // A closing bracket directly after the opening bracket is part of the list
+            let start = index + 1
+            const negated = chars[start] === "^"
+            if (negated) start++
+            const end = chars.indexOf("]", start + 1)
+            if (end === -1) {
+                source += escapeChar(char)
+                continue
+            }
+            const list = chars.slice(start, end).map((listChar, listIndex, listChars) => {
+                const isRange = listChar === "-" && listIndex > 0 && listIndex < listChars.length - 1
+                return isRange ? "-" : escapeChar(listChar, SPECIAL_LIST_CHARS)
+            }).join("")
+            source += (negated ? "[^" : "[") + list + "]"
+            index = end
+        } else {
+            source += escapeChar(char)
+        }
+    }
+    return new RegExp("^" + source + "$", "su")
+}
+
+
+/**
+ * Returns the literal beginning of a glob pattern (the characters before the first wildcard).
+ * All keys matching the pattern start with this prefix.
+ */
+export function getGlobPrefix(pattern: string): string {
+    const chars = Array.from(pattern)
+    const end = chars.findIndex((char) => char === "*" || char === "?" || char === "[")
+    return end === -1 ? pattern : chars.slice(0, end).join("")
+}
+
+
+/**
+ * Returns the literal beginning of a regular expression anchored with `^`.
+ * All strings matching the regular expression start with this prefix.
+ * Returns an empty string if no prefix can be determined safely
+ * (no anchor, alternatives, case-insensitive or multiline flag).
+ */
+export function getRegExpPrefix(regExp: RegExp): string {
+    const {source, flags} = regExp
+    if (!source.startsWith("^") || source.includes("|") || flags.includes("i") || flags.includes("m")) {
+        return ""
+    }
+    const chars = Array.from(source.substring(1))
+    const prefixChars: string[] = []
+    for (let index = 0; index < chars.length; index++) {
+        let char = chars[index]
+        if (char === "\\") {
+            // Only escaped special characters are literals (`\d`, `\w`... are classes)
+            char = chars[++index]
+            if (char === undefined || !SPECIAL_CHARS.includes(char)) break
+        } else if (SPECIAL_CHARS.includes(char)) {
+            // A quantifier makes the preceding character optional or repeatable
+            if ("?*{".includes(char)) prefixChars.pop()
+            break
+        }
+        prefixChars.push(char)
+    }
+    return prefixChars.join("")
+}
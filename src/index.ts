@@ -1,24 +1,113 @@
-import type { Database } from "bun:sqlite"
-import { serialize, deserialize } from "node:v8"
+import { Database, type Statement } from "bun:sqlite"
+import { AsyncLocalStorage } from "node:async_hooks"
 import type {
     MaxExpiringItems, Options, TtlMs, Record, Key,
-    Item, Field, Tag, Value, DbOptions
+    Item, Field, Tag, Value, DbOptions, ScoredMember,
+    KeyEvent, KeyEventListener, KeyEventType, Change, Serializer,
+    CompressionAlgorithm, CompressionOptions, EncodedValue, EncryptionKey,
+    ScanOptions, ScanResult, ScanItemsResult, SelectOptions,
+    IndexExtractor, IndexDefinition, IndexRange, IndexValue, QueryOptions, WatchedKeys, ItemMeta, EvictionPolicy, SetOptions,
+    Expiration
 } from "./interfaces.ts"
 import {
-    INDEX_OUT_OF_RANGE_ERROR_LABEL, INVALID_COUNT_ERROR_LABEL,
-    ITEM_NOT_EXISTS_ERROR_LABEL, NO_ARRAY_ERROR_LABEL
+    INDEX_OUT_OF_RANGE_ERROR_LABEL, INVALID_COUNT_ERROR_LABEL, INVALID_SCORE_ERROR_LABEL,
+    ITEM_NOT_EXISTS_ERROR_LABEL, NO_ARRAY_ERROR_LABEL, NO_MAP_ERROR_LABEL, NO_SET_ERROR_LABEL,
+    NO_SORTED_SET_ERROR_LABEL, SERIALIZER_MISMATCH_ERROR_LABEL, ENCRYPTION_KEY_ERROR_LABEL,
+    QUERY_NOT_SUPPORTED_ERROR_LABEL, KEY_CHANGED_ERROR_LABEL, SET_NOT_SUPPORTED_ERROR_LABEL, INDEX_ERROR_LABEL
 } from "./errors.ts"
-import { getDatabase, getStatements } from "./database.ts"
+import {
+    createEvictionTables, createTables, getCountersStatement, getDatabase, getEvictionStatement, getIndexStatement, getNamespaces, getQueryStatement, getScanStatement,
+    getSelectStatement, getStatements, getTableNames, type Statements, type TableNames
+} from "./database.ts"
+import { getGlobPrefix, getRegExpPrefix, globToRegExp } from "./glob.ts"
+import { getSerializer } from "./serializers.ts"
+import { compress, decompress } from "./compression.ts"
+import { createKdfParams, decrypt, encrypt, getAssociatedData, getEncryptionKey, type KdfParams } from "./encryption.ts"
 
 
+export { BunSqliteKeyValueAsync } from "./async.ts"
 export {
-    INDEX_OUT_OF_RANGE_ERROR_LABEL, INVALID_COUNT_ERROR_LABEL,
-    ITEM_NOT_EXISTS_ERROR_LABEL, NO_ARRAY_ERROR_LABEL
+    INDEX_OUT_OF_RANGE_ERROR_LABEL, INVALID_COUNT_ERROR_LABEL, INVALID_SCORE_ERROR_LABEL,
+    ITEM_NOT_EXISTS_ERROR_LABEL, NO_ARRAY_ERROR_LABEL, NO_MAP_ERROR_LABEL, NO_SET_ERROR_LABEL,
+    NO_SORTED_SET_ERROR_LABEL, SERIALIZER_MISMATCH_ERROR_LABEL, ENCRYPTION_KEY_ERROR_LABEL,
+    QUERY_NOT_SUPPORTED_ERROR_LABEL, KEY_CHANGED_ERROR_LABEL, SET_NOT_SUPPORTED_ERROR_LABEL, INDEX_ERROR_LABEL
 }
 
 
 const MIN_UTF8_CHAR: string = String.fromCodePoint(1)
 const MAX_UTF8_CHAR: string = String.fromCodePoint(1_114_111)
+const BLOCKING_POLL_INTERVAL_MS: number = 50
+const CHANGELOG_POLL_INTERVAL_MS: number = 50
+const CHANGELOG_BATCH_SIZE: number = 100
+const COMPRESSION_MIN_BYTES: number = 1024
+const ENCRYPTION_KEY_CHECK_TEXT: string = "bun-sqlite-key-value"
+const SCAN_COUNT: number = 10
+const ITERATE_COUNT: number = 1000
+const EVICTION_BATCH_SIZE: number = 100
+const CLEANUP_BATCH_SIZE: number = 1000
+const LIST_BATCH_SIZE: number = 100
+const INDEX_SETTING_PREFIX: string = "index:"
+
+
+// Waiting blocking pops per database connection, so that pushes of all stores
+// which share the connection (e.g. namespaces) wake them up
+const listPushListenersByDb: WeakMap<Database, Set<() => void>> = new WeakMap()
+
+
+// Key events per database connection which are dispatched after the outermost transaction
+// is committed, because the transaction can be started by any store of the connection
+const pendingKeyEventsByDb: WeakMap<Database, (() => void)[]> = new WeakMap()
+
+
+// Database connections closed by their owning store, so that the other stores
+// of the connection (e.g. namespaces) stop their blocking pops and watchers
+const closedDatabases: WeakSet<Database> = new WeakSet()
+
+
+// Encryption keys of the namespaces (table prefix --> key) per database connection,
+// so that `rotateEncryptionKey()` also changes the keys of the other stores of the connection
+const encryptionKeysByDb: WeakMap<Database, Map<string, {secret: EncryptionKey, key: Buffer}>> = new WeakMap()
+
+
+// Returns up to `count` distinct random members of the set
+function getRandomMembers<T>(set: Set<T>, count: number): T[] {
+    const members = Array.from(set)
+    for (let index = members.length - 1; index > 0; index--) {
+        const randomIndex = Math.floor(Math.random() * (index + 1));
+        [members[index], members[randomIndex]] = [members[randomIndex], members[index]]
+    }
+    return members.slice(0, count)
+}
+
+
+// Converts booleans into numbers, because SQLite has no boolean storage class
+function toIndexValue(value: IndexValue): string | number {
+    return typeof value === "boolean" ? Number(value) : value
+}
+
+
+// Converts a `Date` into a timestamp in milliseconds
+// Raises an error if the score of a sorted set member is not a number or `NaN`.
+// `Infinity` and `-Infinity` are valid scores.
+function checkScore(score: number) {
+    if (typeof score !== "number" || Number.isNaN(score)) {
+        throw new Error(INVALID_SCORE_ERROR_LABEL + " The score must be a number and not NaN.")
+    }
+}
+
+
+function toTimestamp(timestamp: number | Date): number {
+    return timestamp instanceof Date ? timestamp.getTime() : timestamp
+}
+
+
+// Returns the value of an object property by its path (e.g. `"address.city"`).
+// Maps are read with `get()`.
+function getFieldPathValue(value: any, fieldPath: string): any {
+    return fieldPath.split(".").reduce((current, fieldName) => {
+        return current instanceof Map ? current.get(fieldName) : current?.[fieldName]
+    }, value)
+}
 
 
 /**
@@ -33,26 +122,87 @@ export class BunSqliteKeyValue {
     data: {[key: Key]: any} = this.getDataObject()
     d: {[key: Key]: any} = this.data  // Alias for `data`
     private statements  // Database statements
+    private tables: TableNames  // Table names of the namespace
+    private options: Options  // Options for other namespaces
+    private ownsDatabase: boolean  // `false` if the connection is shared with another store
+    private serializer: Serializer
+    private compression: CompressionOptions | undefined
+    private encryptionKeys: Map<string, {secret: EncryptionKey, key: Buffer}>  // Keys of the connection
+    private listPushListeners: Set<() => void>  // Waiting blocking pops of the connection
+    private pendingKeyEvents: (() => void)[]  // Key events of the open transaction of the connection
+    private onListenerError: (error: unknown, event: KeyEvent) => void
+    private closed: boolean = false
+    private indexes: Map<string, IndexExtractor> = new Map()  // Secondary indexes (name --> extractor)
+    private unregisteredIndexes: Set<string> = new Set()  // Recorded indexes with unknown extractor functions
+    private asyncTransactionQueue: Promise<unknown> = Promise.resolve()  // Queued async transactions
+    private asyncTransactionContext: AsyncLocalStorage<boolean> = new AsyncLocalStorage()  // Detects nesting
+    private savepointCount: number = 0
+    private trackAccess: boolean  // Record the read accesses of the items
+    private maxItems: number | undefined
+    private maxBytes: number | undefined
+    private evictionPolicy: EvictionPolicy
+    private evictionLowWaterMark: number
+    private evictionStatement: Statement<{key: Key, size: number}> | undefined  // Only if limits are set
+    private countersStatement: Statement<{items: number, bytes: number}> | undefined  // Only if limits are set
+    private cleanupTimer: Timer | undefined  // Periodic cleanup of expired items
+    private slidingTtl: boolean  // Renew the expiration time on read accesses
+    private keyEventListeners: {
+        type: KeyEventType,
+        pattern: string,
+        regExp: RegExp,
+        listener: KeyEventListener
+    }[] = []
 
 
     /**
      * Opens and creates the SQLite database either in memory or on the file system.
      *
-     * @param {string} filename
+     * @param {string | Database} filename
      *  The full path to the SQLite database to open.
      *  Or pass an empty string (`""`), `":memory:"` or `undefined` for an in-memory database.
+     *  Or pass the `db` of another store to share its connection
+     *  (e.g. for another namespace, see `namespace()`).
      * @param {Options} options
      *  Database options
      */
-    constructor(filename?: string, options?: Options) {
+    constructor(filename?: string | Database, options?: Options) {
         // Parse options
         const {
             ttlMs,
             maxExpiringItemsInDb,
+            changelog,
+            serializer,
+            compression,
+            encryptionKey,
+            namespace,
+            trackAccess,
+            maxItems,
+            maxBytes,
+            evictionPolicy,
+            evictionLowWaterMark,
+            cleanupIntervalMs,
+            onCleanup,
+            onListenerError,
+            slidingTtl,
             ...otherOptions
         } = options ?? {}
+        this.options = options ?? {}
         this.ttlMs = ttlMs
         this.maxExpiringItemsInDb = maxExpiringItemsInDb
+        this.serializer = getSerializer(serializer)
+        this.compression = typeof compression === "string" ? {algorithm: compression} : compression
+        this.slidingTtl = !!slidingTtl
+        this.onListenerError = onListenerError ?? ((error) => console.error(error))
+        this.maxItems = maxItems
+        this.maxBytes = maxBytes
+        this.evictionPolicy = evictionPolicy ?? "lru"
+        this.evictionLowWaterMark = evictionLowWaterMark ?? 0.9
+        if (!(this.evictionLowWaterMark > 0 && this.evictionLowWaterMark <= 1)) {
+            throw new TypeError("The eviction low-water mark must be greater than 0 and not greater than 1.")
+        }
+        // The LRU and LFU policies need the read accesses
+        const limited: boolean = maxItems !== undefined || maxBytes !== undefined
+        this.trackAccess = !!trackAccess || (limited && this.evictionPolicy !== "fifo" && this.evictionPolicy !== "allkeys-random")
         const dbOptions: DbOptions = {
             ...otherOptions,
             strict: true,
@@ -61,18 +211,72 @@ export class BunSqliteKeyValue {
         }
 
         // Open or create database
-        if (filename === undefined || !filename?.length) {
-            filename = ":memory:"
+        this.tables = getTableNames(namespace)
+        if (filename instanceof Database) {
+            this.db = filename
+            this.ownsDatabase = false
+        } else {
+            if (filename === undefined || !filename?.length) {
+                filename = ":memory:"
+            }
+            this.db = getDatabase(filename, dbOptions)
+            this.ownsDatabase = true
         }
-        this.db = getDatabase(filename, dbOptions)
+
+        // Share the waiting blocking pops with the other stores of the connection
+        if (!listPushListenersByDb.has(this.db)) listPushListenersByDb.set(this.db, new Set())
+        this.listPushListeners = listPushListenersByDb.get(this.db)!
+        if (!pendingKeyEventsByDb.has(this.db)) pendingKeyEventsByDb.set(this.db, [])
+        this.pendingKeyEvents = pendingKeyEventsByDb.get(this.db)!
+        if (!encryptionKeysByDb.has(this.db)) encryptionKeysByDb.set(this.db, new Map())
+        this.encryptionKeys = encryptionKeysByDb.get(this.db)!
+
+        // Create the tables of the namespace
+        createTables(this.db, this.tables, changelog)
 
         // Prepare and cache statements
-        this.statements = getStatements(this.db)
+        this.statements = getStatements(this.db, this.tables)
+
+        try {
+            // Record the serializer or check if it matches the recorded serializer
+            this.checkSerializer()
+
+            // Check if the encryption key matches the encrypted database
+            this.checkEncryptionKey(encryptionKey)
+
+            // Load the recorded secondary indexes
+            this.loadIndexes()
+
+            // Check the eviction policy, create the counters and prepare the statements
+            if (limited) {
+                this.evictionStatement = getEvictionStatement(this.db, this.tables, this.evictionPolicy)
+                createEvictionTables(this.db, this.tables, this.evictionPolicy)
+                this.countersStatement = getCountersStatement(this.db, this.tables)
+            }
+        } catch (error) {
+            if (this.ownsDatabase) this.db.close()
+            throw error
+        }
 
-        // Delete expired and old expiring items
+        // Delete expired and old expiring items, evict items above the limits
         this.deleteExpired()
         this.deleteOldExpiringItems()
-
+        this.evict()
+
+        // Delete expired items periodically
+        if (cleanupIntervalMs) {
+            this.cleanupTimer = setInterval(() => {
+                let deletedCount: number
+                try {
+                    deletedCount = this.cleanupExpired()
+                } catch {
+                    // E.g. the database is locked by another process --> the next run tries again
+                    return
+                }
+                onCleanup?.(deletedCount)
+            }, cleanupIntervalMs)
+            this.cleanupTimer.unref()
+        }
     }
 
 
@@ -80,7 +284,33 @@ export class BunSqliteKeyValue {
      * Deletes all expired records.
      */
     deleteExpired() {
-        this.statements.deleteExpired.run({now: Date.now()})
+        this.runDeleteStatement(this.statements.deleteExpired, {now: Date.now()}, "expire")
+    }
+
+
+    /**
+     * Deletes all expired records in batches.
+     * Each batch is deleted in its own transaction, so that other connections
+     * are not blocked for a long time by a large number of expired items.
+     * Is called periodically with the option `cleanupIntervalMs`.
+     *
+     * @param {number} batchSize
+     *  Maximum number of items deleted per transaction (default: 1000)
+     * @returns {number}
+     *  Number of deleted items
+     */
+    cleanupExpired(batchSize: number = CLEANUP_BATCH_SIZE): number {
+        if (batchSize <= 0) {
+            throw new Error(INVALID_COUNT_ERROR_LABEL + " `batchSize` must be greater then 0.")
+        }
+        const now = Date.now()
+        let deletedCount: number = 0
+        while (true) {
+            const deletedRecords = this.statements.deleteExpiredBatch.all({now, limit: batchSize})
+            deletedRecords.forEach(({key}) => this.emitKeyEvent({type: "expire", key}))
+            deletedCount += deletedRecords.length
+            if (deletedRecords.length < batchSize) return deletedCount
+        }
     }
 
 
@@ -96,17 +326,18 @@ export class BunSqliteKeyValue {
     delete(keyOrKeys?: Key | Key[]) {
         if (typeof keyOrKeys === "string") {
             // Delete one
-            this.statements.delete.run({key: keyOrKeys})
+            if (this.statements.delete.run({key: keyOrKeys}).changes) {
+                this.emitKeyEvent({type: "delete", key: keyOrKeys})
+            }
         } else if (keyOrKeys?.length) {
             // Delete multiple items
-            this.db.transaction(() => {
-                keyOrKeys.forEach((key) => {
-                    this.statements.delete.run({key})
-                })
-            })()
+            const deletedKeys = this.runTransaction(() => {
+                return keyOrKeys.filter((key) => this.statements.delete.run({key}).changes)
+            })
+            deletedKeys.forEach((key) => this.emitKeyEvent({type: "delete", key}))
         } else {
             // Delete all
-            this.statements.clear.run()
+            this.runDeleteStatement(this.statements.clear, {}, "delete")
         }
     }
 
@@ -129,7 +360,318 @@ export class BunSqliteKeyValue {
      * Removes .sqlite-shm and .sqlite-wal files
      */
     close() {
-        this.db.close()
+        this.closed = true
+        if (this.ownsDatabase) closedDatabases.add(this.db)
+        clearInterval(this.cleanupTimer)
+        this.listPushListeners.forEach((listener) => listener())
+        this.keyEventListeners = []
+        if (this.ownsDatabase) this.db.close()
+    }
+
+
+    /**
+     * Returns a store for another namespace in the same database file.
+     * Each namespace has its own tables, so keys, counts, TTL cleanup and `clear()`
+     * are isolated from other namespaces.
+     * The returned store shares the database connection and the options of this store.
+     * Closing the returned store does not close the shared connection.
+     *
+     * @param {string} name
+     *  Name of the namespace. Only letters, digits and underscores are allowed.
+     * @returns {BunSqliteKeyValue}
+     *
+     * @example
+     * const store = new BunSqliteKeyValue("tenants.sqlite")
+     * const tenantA = store.namespace("tenantA")
+     * const tenantB = store.namespace("tenantB")
+     * tenantA.set("myKey", "value A")
+     * tenantB.get("myKey") // --> undefined
+     */
+    namespace(name: string): BunSqliteKeyValue {
+        return new BunSqliteKeyValue(this.db, {
+            ...this.options,
+            encryptionKey: this.encryptionKeys.get(this.tables.prefix)?.secret,
+            namespace: name,
+        })
+    }
+
+
+    /**
+     * Runs the callback in a transaction and returns the result of the callback.
+     * If the callback raises an error, all changes are rolled back and the error is rethrown.
+     *
+     * The callback receives the store (`tx`), so that all methods can be used.
+     * Nested transactions (also those of the store methods) are savepoints
+     * of the outer transaction.
+     *
+     * @category Transactions
+     * @param {(tx: BunSqliteKeyValue) => R} callback
+     *  Synchronous function. Use `transactionAsync()` for asynchronous functions.
+     * @param {WatchedKeys} watchedKeys
+     *  Versions returned by `watchKeys()`. If one of the watched keys has changed,
+     *  the callback is not called and a `KEY_CHANGED_ERROR` is raised.
+     * @returns {R}
+     *  Returns the result of the callback.
+     *
+     * @example
+     * const total = store.transaction((tx) => {
+     *     const total = tx.get<number>("price") * tx.get<number>("quantity")
+     *     tx.set("total", total)
+     *     return total
+     * })
+     */
+    transaction<R>(callback: (tx: BunSqliteKeyValue) => R, watchedKeys?: WatchedKeys): R {
+        return this.runTransaction(() => {
+            if (watchedKeys) this.checkWatchedKeys(watchedKeys)
+            return callback(this)
+        }, "immediate")
+    }
+
+
+    // Runs the callback in a transaction or, if nested, in a savepoint.
+    // The key events are dispatched after the outermost transaction is committed.
+    // The key events of rolled back changes are discarded.
+    private runTransaction<R>(callback: () => R, mode: "deferred" | "immediate" = "deferred"): R {
+        const pendingCount = this.pendingKeyEvents.length
+        let result: R
+        try {
+            // The types of bun:sqlite declare `void` as result of the transaction
+            const transaction = this.db.transaction(callback)
+            result = (mode === "immediate" ? transaction.immediate() : transaction()) as unknown as R
+        } catch (error) {
+            this.pendingKeyEvents.splice(pendingCount)
+            throw error
+        }
+        this.dispatchKeyEvents()
+        return result
+    }
+
+
+    /**
+     * Runs the asynchronous callback in a transaction and returns the result of the callback.
+     * If the callback raises an error, all changes are rolled back and the error is rethrown.
+     *
+     * Asynchronous transactions of this store are queued, so that they don't interleave.
+     * Nested `transactionAsync()` and `transaction()` calls within the callback are savepoints.
+     * Note: Other code which uses the same store (or connection) while the callback
+     * is waiting takes part in the transaction.
+     *
+     * @category Transactions
+     * @param {(tx: BunSqliteKeyValue) => Promise<R>} callback
+     *  Asynchronous function
+     * @param {WatchedKeys} watchedKeys
+     *  Versions returned by `watchKeys()`. If one of the watched keys has changed,
+     *  the callback is not called and a `KEY_CHANGED_ERROR` is raised.
+     * @returns {Promise<R>}
+     *  Returns the result of the callback.
+     *
+     * @example
+     * await store.transactionAsync(async (tx) => {
+     *     const rate = await fetchExchangeRate()
+     *     tx.set("price-eur", tx.get<number>("price-usd") * rate)
+     * })
+     */
+    async transactionAsync<R>(
+        callback: (tx: BunSqliteKeyValue) => Promise<R>,
+        watchedKeys?: WatchedKeys
+    ): Promise<R> {
+        // Nested asynchronous transaction
+        if (this.asyncTransactionContext.getStore()) {
+            return this.runAsyncTransaction(callback, true, watchedKeys)
+        }
+        const run = () => this.asyncTransactionContext.run(true, () => {
+            return this.runAsyncTransaction(callback, false, watchedKeys)
+        })
+        const result = this.asyncTransactionQueue.then(run, run)
+        this.asyncTransactionQueue = result.catch(() => undefined)
+        return result
+    }
+
+
+    // Runs the asynchronous callback in a transaction or, if nested, in a savepoint.
+    private async runAsyncTransaction<R>(
+        callback: (tx: BunSqliteKeyValue) => Promise<R>,
+        nested: boolean,
+        watchedKeys?: WatchedKeys
+    ): Promise<R> {
+        const savepoint: string = `async_transaction_${++this.savepointCount}`
+        const pendingCount = this.pendingKeyEvents.length
+        this.db.run(nested ? `SAVEPOINT ${savepoint}` : "BEGIN IMMEDIATE")
+        try {
+            if (watchedKeys) this.checkWatchedKeys(watchedKeys)
+            const result = await callback(this)
+            this.db.run(nested ? `RELEASE ${savepoint}` : "COMMIT")
+            this.dispatchKeyEvents()
+            return result
+        } catch (error) {
+            if (nested) {
+                this.db.run(`ROLLBACK TO ${savepoint}`)
+                this.db.run(`RELEASE ${savepoint}`)
+            } else {
+                this.db.run("ROLLBACK")
+            }
+            this.pendingKeyEvents.splice(pendingCount)
+            throw error
+        }
+    }
+
+
+    /**
+     * Returns the version of the item.
+     * The version starts at 1 and is increased with every change of the item
+     * (also by other processes). Deleting and re-creating the item starts again at 1.
+     *
+     * @category Versions
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @returns {number | undefined}
+     *  Returns `undefined` if the item does not exist.
+     */
+    getVersion(key: Key): number | undefined {
+        const record = this.statements.getVersion.get({key})
+        if (!record) return
+        if (record.expires && record.expires < Date.now()) {
+            this.deleteExpiredKeys([key])
+            return
+        }
+        return record.version
+    }
+
+
+    /**
+     * Writes the value only if the item has the expected version.
+     *
+     * @category Versions
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {T} value
+     *  {@link Value More informations about `value`.}
+     * @param {number} expectedVersion
+     *  Version read with `getVersion()`. Pass `0` if the item must not exist.
+     * @param {TtlMs} ttlMs
+     * @returns {boolean}
+     *  Returns `true` if the value was written.
+     *  Returns `false` if the item has another version.
+     *
+     * @example
+     * const version = store.getVersion("counter") ?? 0
+     * const counter = store.get<number>("counter") ?? 0
+     * if (!store.setIfVersion("counter", counter + 1, version)) {
+     *     // Changed by another process --> read again and retry
+     * }
+     */
+    setIfVersion<T = any>(key: Key, value: T, expectedVersion: number, ttlMs?: TtlMs): boolean {
+        return this.transaction(() => {
+            if ((this.getVersion(key) ?? 0) !== expectedVersion) return false
+            this.set<T>(key, value, ttlMs)
+            return true
+        })
+    }
+
+
+    /**
+     * Writes the new value only if the current value equals the expected value.
+     * The values are compared with `Bun.deepEquals()`.
+     *
+     * @category Versions
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {T | undefined} expectedValue
+     *  Pass `undefined` if the item must not exist.
+     * @param {T} newValue
+     *  {@link Value More informations about `value`.}
+     * @param {TtlMs} ttlMs
+     * @returns {boolean}
+     *  Returns `true` if the new value was written.
+     *  Returns `false` if the current value is different.
+     */
+    compareAndSet<T = any>(key: Key, expectedValue: T | undefined, newValue: T, ttlMs?: TtlMs): boolean {
+        return this.transaction(() => {
+            if (!Bun.deepEquals(this.get<T>(key), expectedValue, true)) return false
+            this.set<T>(key, newValue, ttlMs)
+            return true
+        })
+    }
+
+
+    /**
+     * Returns the current versions of the keys.
+     * Pass them to `transaction()` or `transactionAsync()`, which raise
+     * a `KEY_CHANGED_ERROR` if one of the keys has changed in the meantime.
+     * Not existing keys have the version `0`.
+     *
+     * @category Versions
+     * @param {Key[]} keys
+     * @returns {WatchedKeys}
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#watch
+     *
+     * @example
+     * const watchedKeys = store.watchKeys(["balance"])
+     * const balance = store.get<number>("balance")
+     * const newBalance = await calculateNewBalance(balance)
+     * store.transaction((tx) => tx.set("balance", newBalance), watchedKeys)
+     */
+    watchKeys(keys: Key[]): WatchedKeys {
+        return this.transaction(() => {
+            return new Map(keys.map((key) => [key, this.getVersion(key) ?? 0]))
+        })
+    }
+
+
+    // Raises an error if one of the watched keys has another version.
+    private checkWatchedKeys(watchedKeys: WatchedKeys) {
+        for (const [key, version] of watchedKeys) {
+            if ((this.getVersion(key) ?? 0) !== version) {
+                throw new Error(KEY_CHANGED_ERROR_LABEL + ` Key "${key.substring(-80)}" has changed.`)
+            }
+        }
+    }
+
+
+    /**
+     * Returns the metadata of the item: creation time, time of the last change,
+     * expiration time, version and storage type.
+     * With the option `trackAccess`, also the time of the last read access
+     * and the number of read accesses.
+     * Reading the metadata is not counted as read access.
+     *
+     * @category Metadata
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @returns {ItemMeta | undefined}
+     *  Returns `undefined` if the item does not exist.
+     *
+     * @example
+     * store.set("key-1", "value-1")
+     * store.getItemMeta("key-1") // --> {created: 1718000000000, updated: 1718000000000, version: 1, ...}
+     */
+    getItemMeta(key: Key): ItemMeta | undefined {
+        const meta = this.statements.getItemMeta.get({key})
+        if (!meta) return
+        if (meta.expires && meta.expires < Date.now()) {
+            this.deleteExpiredKeys([key])
+            return
+        }
+        return meta
+    }
+
+
+    // Records the read access of the items (option `trackAccess`)
+    // and renews the expiration time of the items with sliding TTL.
+    // Multiple items are updated with one statement.
+    private recordAccess(records: Pick<Record, "key" | "slidingTtl">[]) {
+        const keys: Key[] = this.trackAccess
+            ? records.map(({key}) => key)
+            : records.filter(({slidingTtl}) => slidingTtl).map(({key}) => key)
+        if (!keys.length) return
+        const params = {now: Date.now(), track: Number(this.trackAccess)}
+        if (keys.length === 1) {
+            this.statements.recordAccess.run({...params, key: keys[0]})
+        } else {
+            this.statements.recordAccesses.run({...params, keys: JSON.stringify(keys)})
+        }
     }
 
 
@@ -166,10 +708,10 @@ export class BunSqliteKeyValue {
     getCountValid(deleteExpired?: boolean): number {
 
         if (deleteExpired === true) {
-            return this.db.transaction(() => {
-                this.statements.deleteExpired.run({now: Date.now()})
+            return this.runTransaction(() => {
+                this.deleteExpired()
                 return (this.statements.count.get() as {count: number}).count
-            })()
+            })
         } else {
             return (this.statements.countValid.get({now: Date.now()}) as {count: number}).count
         }
@@ -183,7 +725,8 @@ export class BunSqliteKeyValue {
      *  {@link Key More informations about `key`.}
      * @param {T} value
      *  {@link Value More informations about `value`.}
-     * @param {TtlMs} ttlMs
+     * @param {TtlMs | SetOptions} ttlMsOrOptions
+     *  Time to live in milliseconds or expiration options (`ttlMs`, `expiresAt`, `keepTtl`)
      * @returns {Key}
      *  Returns the key.
      *
@@ -197,22 +740,46 @@ export class BunSqliteKeyValue {
      * store.data["myKey3"] = "my-value"
      * // Becomes invalid after 30 seconds
      * store.set("myKey6", "item-with-ttl", 30000)
+     * // Becomes invalid at midnight
+     * store.set("myKey7", "item-with-expiration", {expiresAt: new Date("2030-01-01T00:00:00")})
+     * // Keeps the TTL of myKey6
+     * store.set("myKey6", "new-value", {keepTtl: true})
      *
      */
-    set<T = any>(key: Key | undefined, value: T, ttlMs?: TtlMs): Key {
-        let expires: number | undefined
-        ttlMs = ttlMs ?? this.ttlMs
-        if (ttlMs !== undefined && ttlMs > 0) {
-            expires = Date.now() + ttlMs
-        }
+    set<T = any>(key: Key | undefined, value: T, ttlMsOrOptions?: TtlMs | SetOptions): Key {
         if (key === undefined) {
             key = crypto.randomUUID()
         }
-        this.statements.setItem.run({key, value: serialize(value), expires})
+        const record = {key, ...this.encodeValue(value, ["value", key]), ...this.getSetExpiration(key, ttlMsOrOptions)}
+        if (this.indexes.size || this.unregisteredIndexes.size) {
+            this.runTransaction(() => {
+                this.statements.setItem.run(record)
+                this.addIndexEntries(key, value)
+                this.markUnregisteredIndexesStale()
+            })
+        } else {
+            this.statements.setItem.run(record)
+        }
+        this.itemWritten(key)
         return key
     }
 
 
+    // Replaces the value of the existing item at `key`.
+    // Unlike `set()`, the tags, the expiration time and the creation time of the item are kept.
+    private updateValue<T = any>(key: Key, value: T) {
+        this.runTransaction(() => {
+            this.statements.updateItemValue.run({key, ...this.encodeValue(value, ["value", key])})
+            if (this.indexes.size || this.unregisteredIndexes.size) {
+                this.statements.deleteIndexEntriesOfKey.run({key})
+                this.addIndexEntries(key, value)
+                this.markUnregisteredIndexesStale()
+            }
+        })
+        this.itemWritten(key)
+    }
+
+
     // Alias for set()
     setValue = this.set
     put = this.set
@@ -225,11 +792,11 @@ export class BunSqliteKeyValue {
      * @param {{key: Key, value: T, ttlMs?: TtlMs}[]} items
      */
     setItems<T = any>(items: {key: Key | undefined, value: T, ttlMs?: TtlMs}[]) {
-        this.db.transaction(() => {
+        this.runTransaction(() => {
             items.forEach(({key, value, ttlMs}) => {
                 this.set<T>(key, value, ttlMs)
             })
-        })()
+        })
     }
 
 
@@ -250,16 +817,10 @@ export class BunSqliteKeyValue {
      * store.data["myKey"] // --> "my-value"
      */
     get<T = any>(key: Key): T | undefined {
-        const record = this.statements.getItem.get({key})
+        const record = this.getValidRecord(key)
         if (!record) return
-        const {value, expires} = record
-        if (expires) {
-            if (expires < Date.now()) {
-                this.delete(key)
-                return
-            }
-        }
-        return value ? deserialize(value) as T : undefined
+        this.recordAccess([{...record, key}])
+        return this.getRecordValue<T>(key, record)
     }
 
 
@@ -277,21 +838,26 @@ export class BunSqliteKeyValue {
 
 
     // Get multiple items (key-value array)
-    getItems<T = any>(startsWithOrKeys?: string | string[]): Item<T>[] | undefined {
+    getItems<T = any>(startsWithOrKeys?: string | string[] | SelectOptions): Item<T>[] | undefined {
         let records: Record[]
+        let withMeta: boolean = false
         if (startsWithOrKeys && typeof startsWithOrKeys === "string") {
             const key: Key = startsWithOrKeys
             const gte: string = key + MIN_UTF8_CHAR
             const lt: string = key + MAX_UTF8_CHAR
             records = this.statements.getItemsStartsWith.all({key, gte, lt})
+        } else if (typeof startsWithOrKeys === "object" && !Array.isArray(startsWithOrKeys)) {
+            // Filtered items (select options)
+            records = this.selectRecords(startsWithOrKeys, true)
+            withMeta = !!startsWithOrKeys.withMeta
         } else if (startsWithOrKeys) {
             // Filtered items (array with keys)
-            records = this.db.transaction(() => {
+            records = this.runTransaction(() => {
                 return (startsWithOrKeys as Key[]).map((key: Key) => {
                     const record = this.statements.getItem.get({key})
-                    return {...record, key}
+                    return {...record, key} as Record
                 })
-            })()
+            })
         } else {
             // All items
             records = this.statements.getAllItems.all()
@@ -299,25 +865,30 @@ export class BunSqliteKeyValue {
         if (!records?.length) return
         const now = Date.now()
         const result: Item<T>[] = []
+        const validRecords: Record[] = []
         const keysToDelete: string[] = []
         for (const record of records) {
-            const {key, value, expires} = record
+            const {key, expires} = record
             if (expires && expires < now) {
                 // Mark key for deletion
                 keysToDelete.push(key)
             } else {
-                result.push({
+                validRecords.push(record)
+                const item: Item<T> = {
                     key,
-                    value: value ? deserialize(value) as T : undefined
-                })
+                    value: this.getRecordValue<T>(key, record)
+                }
+                if (withMeta) {
+                    const {created, updated, version, lastAccessed, hits, type} = record as Record & ItemMeta
+                    item.meta = {created, updated, expires, version, lastAccessed, hits, type}
+                }
+                result.push(item)
             }
         }
         // Delete expired keys
-        if (keysToDelete.length === 1) {
-            this.delete(keysToDelete[0])
-        } else if (keysToDelete.length > 1) {
-            this.delete(keysToDelete)
-        }
+        this.deleteExpiredKeys(keysToDelete)
+        // Record the read accesses
+        this.recordAccess(validRecords)
         // Return result
         if (result.length) {
             return result
@@ -336,7 +907,7 @@ export class BunSqliteKeyValue {
 
 
     // Get multiple values as array
-    getValues<T = any>(startsWithOrKeys?: string | string[]): (T | undefined)[] | undefined {
+    getValues<T = any>(startsWithOrKeys?: string | string[] | SelectOptions): (T | undefined)[] | undefined {
         return this.getItems<T>(startsWithOrKeys)?.map((result) => result.value)
     }
 
@@ -352,7 +923,7 @@ export class BunSqliteKeyValue {
 
 
     // Get multiple items as object
-    getItemsAsObject<T = any>(startsWithOrKeys?: string | string[]): {[key: Key]: T | undefined} | undefined {
+    getItemsAsObject<T = any>(startsWithOrKeys?: string | string[] | SelectOptions): {[key: Key]: T | undefined} | undefined {
         const items = this.getItems(startsWithOrKeys)
         if (!items) return
         return Object.fromEntries(items.map(item => [item.key, item.value as T | undefined]))
@@ -364,7 +935,7 @@ export class BunSqliteKeyValue {
 
 
     // Get multiple items as Map()
-    getItemsAsMap<T = any>(startsWithOrKeys?: string | string[]): Map<string, T | undefined> | undefined {
+    getItemsAsMap<T = any>(startsWithOrKeys?: string | string[] | SelectOptions): Map<string, T | undefined> | undefined {
         const items = this.getItems(startsWithOrKeys)
         if (!items) return
         return new Map(items.map(item => [item.key, item.value as T | undefined]))
@@ -376,7 +947,7 @@ export class BunSqliteKeyValue {
 
 
     // Get multiple values as Set()
-    getValuesAsSet<T = any>(startsWithOrKeys?: string | string[]): Set<T> | undefined {
+    getValuesAsSet<T = any>(startsWithOrKeys?: string | string[] | SelectOptions): Set<T> | undefined {
         const values = this.getValues(startsWithOrKeys)
         if (!values) return
         return new Set(values)
@@ -393,7 +964,7 @@ export class BunSqliteKeyValue {
         if (!record) return false
         if (record.expires) {
             if (record.expires < Date.now()) {
-                this.delete(key)
+                this.deleteExpiredKeys([key])
                 return false
             }
         }
@@ -407,21 +978,24 @@ export class BunSqliteKeyValue {
 
 
     // Get multiple keys as array
-    getKeys(startsWithOrKeys?: string | string[]): string[] | undefined {
-        let records: (Omit<Record, "value"> | undefined)[]
+    getKeys(startsWithOrKeys?: string | string[] | SelectOptions): string[] | undefined {
+        let records: (Omit<Record, "value" | "compression" | "type"> | undefined)[]
         if (startsWithOrKeys && typeof startsWithOrKeys === "string") {
             const key: Key = startsWithOrKeys
             const gte: string = key + MIN_UTF8_CHAR
             const lt: string = key + MAX_UTF8_CHAR
             records = this.statements.getKeysStartsWith.all({key, gte, lt})
+        } else if (typeof startsWithOrKeys === "object" && !Array.isArray(startsWithOrKeys)) {
+            // Filtered keys (select options)
+            records = this.selectRecords(startsWithOrKeys, false)
         } else if (startsWithOrKeys) {
             // Filtered items (array with keys)
-            records = this.db.transaction(() => {
+            records = this.runTransaction(() => {
                 return (startsWithOrKeys as Key[]).map((key: Key) => {
                     const record = this.statements.getKey.get({key})
                     return record ? {...record, key} : undefined
                 })
-            })()
+            })
         } else {
             // All items
             records = this.statements.getAllKeys.all()
@@ -441,11 +1015,7 @@ export class BunSqliteKeyValue {
             }
         }
         // Delete expired keys
-        if (keysToDelete.length === 1) {
-            this.delete(keysToDelete[0])
-        } else if (keysToDelete.length > 1) {
-            this.delete(keysToDelete)
-        }
+        this.deleteExpiredKeys(keysToDelete)
         // Return result
         if (result.length) {
             return result
@@ -459,34 +1029,327 @@ export class BunSqliteKeyValue {
     }
 
 
-    getExpiringItemsCount(): number {
-        return this.statements.countExpiring.get()!.count
+    // Reads the database rows whose keys match all select options, ordered by key.
+    // The literal prefixes of `startsWith`, `glob` and `regex` narrow down the key range,
+    // so that SQLite can use the primary key index.
+    // The glob pattern is evaluated by SQLite, the regular expression in JavaScript.
+    // If a page is requested (`limit`, `offset`), expired rows are excluded by SQLite
+    // so that they don't shorten or shift the page.
+    private selectRecords(options: SelectOptions, withValues: boolean): Record[] {
+        const {startsWith, glob, regex, gte, lt, after, reverse, limit, offset, withMeta} = options
+        if (limit !== undefined && limit < 0) {
+            throw new Error(INVALID_COUNT_ERROR_LABEL + " `limit` must not be negative.")
+        }
+        if (offset !== undefined && offset < 0) {
+            throw new Error(INVALID_COUNT_ERROR_LABEL + " `offset` must not be negative.")
+        }
+        const prefixes: string[] = [
+            startsWith ?? "",
+            glob !== undefined ? getGlobPrefix(glob) : "",
+            regex ? getRegExpPrefix(regex) : "",
+        ]
+        // The longest prefix must begin with all other prefixes, otherwise no key can match
+        const prefix = prefixes.reduce((longest, current) => current.length > longest.length ? current : longest)
+        if (!prefixes.every((current) => prefix.startsWith(current))) return []
+        const paginated: boolean = limit !== undefined || offset !== undefined
+        const conditions = {
+            prefix: prefix.length > 0,
+            glob: glob !== undefined,
+            gte: gte !== undefined,
+            lt: lt !== undefined,
+            after: after !== undefined,
+            unexpired: paginated,
+            // The regular expression is evaluated after reading, so the page is cut out afterwards
+            limit: paginated && !regex,
+            reverse: !!reverse,
+            meta: withValues && !!withMeta,
+        }
+        const params: {[name: string]: string | number} = {}
+        if (conditions.prefix) {
+            params.prefix = prefix
+            params.prefixLt = prefix + MAX_UTF8_CHAR
+        }
+        if (conditions.glob) params.glob = glob!
+        if (conditions.gte) params.gte = gte!
+        if (conditions.lt) params.lt = lt!
+        if (conditions.after) params.after = after!
+        if (conditions.unexpired) params.now = Date.now()
+        if (conditions.limit) {
+            params.limit = limit ?? -1
+            params.offset = offset ?? 0
+        }
+        const records = getSelectStatement(this.db, this.tables, withValues, conditions).all(params)
+        if (!regex) return records
+        // `search()` ignores the `lastIndex` of global regular expressions
+        const matchingRecords = records.filter(({key}) => key.search(regex) !== -1)
+        if (!paginated) return matchingRecords
+        const start: number = offset ?? 0
+        return matchingRecords.slice(start, limit === undefined ? undefined : start + limit)
     }
 
 
-    // If there are more expiring items in the database than `maxExpiringItemsInDb`,
-    // the oldest items are deleted until there are only `maxExpiringItemsInDb` items with
-    // an expiration date in the database.
-    deleteOldExpiringItems(maxExpiringItemsInDb?: number) {
-        let maxExpiringItems: number | undefined = maxExpiringItemsInDb ?? this.maxExpiringItemsInDb
-        if (maxExpiringItems === undefined) return
+    // Reads one page of database rows after `cursor`, ordered by key.
+    // Expired rows are skipped and deleted.
+    // The returned cursor is the last examined key or `undefined` if there are no more rows.
+    private scanRecords(
+        cursor: string | undefined,
+        options: ScanOptions | undefined,
+        withValues: boolean,
+        defaultCount: number
+    ): {cursor: string | undefined, records: Record[]} {
+        const {prefix, match} = options ?? {}
+        const count: number = options?.count ?? defaultCount
+        if (count <= 0) {
+            throw new Error(INVALID_COUNT_ERROR_LABEL + " `count` must be greater then 0.")
+        }
+        const conditions = {cursor: cursor !== undefined, prefix: !!prefix, match: match !== undefined}
+        const params: {[name: string]: string | number} = {count}
+        if (conditions.cursor) params.cursor = cursor!
+        if (conditions.prefix) {
+            params.prefix = prefix!
+            params.lt = prefix + MAX_UTF8_CHAR
+        }
+        if (conditions.match) params.match = match!
+        const records = getScanStatement(this.db, this.tables, withValues, conditions).all(params)
+        const now = Date.now()
+        const validRecords: Record[] = []
+        const keysToDelete: string[] = []
+        for (const record of records) {
+            if (record.expires && record.expires < now) {
+                // Mark key for deletion
+                keysToDelete.push(record.key)
+            } else {
+                validRecords.push(record)
+            }
+        }
+        // Delete expired keys
+        this.deleteExpiredKeys(keysToDelete)
+        return {
+            cursor: records.length < count ? undefined : records.at(-1)!.key,
+            records: validRecords
+        }
+    }
 
-        this.db.transaction(() => {
-            const count = this.getExpiringItemsCount()
-            if (count <= maxExpiringItems) return
 
-            const limit = count - maxExpiringItems
-            this.statements.deleteExpiring.run({limit})
-        })()
+    /**
+     * Returns one page of keys, ordered by key.
+     * Pass the returned `cursor` to the next call to get the next page.
+     * If the returned cursor is `undefined`, there are no more keys.
+     *
+     * Pages are read by key order (keyset pagination), so keys added or deleted
+     * between two calls don't shift the following pages.
+     * A page can contain fewer than `count` keys, because expired keys are skipped
+     * and deleted.
+     *
+     * @param {string} cursor
+     *  Cursor returned by the previous call. Pass `undefined` to start at the first key.
+     * @param {ScanOptions} options
+     *  `prefix`: Only keys which start with this string.
+     *  `match`: Only keys which match this glob pattern (e.g. `"user:*"`).
+     *  `count`: Maximum number of keys examined per call (default: 10).
+     *
+     * @category Scan
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#scan
+     *
+     * @example
+     * let cursor: string | undefined
+     * do {
+     *     const result = store.scan(cursor, {prefix: "user:"})
+     *     cursor = result.cursor
+     *     console.log(result.keys)
+     * } while (cursor !== undefined)
+     */
+    scan(cursor?: string, options?: ScanOptions): ScanResult {
+        const result = this.scanRecords(cursor, options, false, SCAN_COUNT)
+        return {
+            cursor: result.cursor,
+            keys: result.records.map(({key}) => key)
+        }
     }
 
 
-    // Alias for deleteOldExpiringItems
-    deleteOldestExpiringItems = this.deleteOldExpiringItems
+    /**
+     * Returns one page of items (key, value), ordered by key.
+     * Works like `scan()`, but also returns the values.
+     *
+     * @param {string} cursor
+     *  Cursor returned by the previous call. Pass `undefined` to start at the first key.
+     * @param {ScanOptions} options
+     *  `prefix`, `match` and `count` like `scan()`.
+     *
+     * @category Scan
+     */
+    scanItems<T = any>(cursor?: string, options?: ScanOptions): ScanItemsResult<T> {
+        const result = this.scanRecords(cursor, options, true, SCAN_COUNT)
+        return {
+            cursor: result.cursor,
+            items: result.records.map((record) => ({
+                key: record.key,
+                value: this.getRecordValue<T>(record.key, record)
+            }))
+        }
+    }
 
 
-    // Proxy for data object
-    private getDataObject(): {[key: Key]: any} {
+    /**
+     * Iterates over all keys, ordered by key.
+     * The keys are read page by page, so large databases are not loaded into memory at once.
+     *
+     * @param {ScanOptions} options
+     *  `prefix`, `match` like `scan()`.
+     *  `count`: Number of keys read per page (default: 1000).
+     *
+     * @category Scan
+     *
+     * @example
+     * for (const key of store.iterateKeys({prefix: "user:"})) {
+     *     console.log(key)
+     * }
+     */
+    *iterateKeys(options?: ScanOptions): Generator<Key> {
+        let cursor: string | undefined
+        do {
+            const result = this.scanRecords(cursor, options, false, ITERATE_COUNT)
+            cursor = result.cursor
+            for (const {key} of result.records) {
+                yield key
+            }
+        } while (cursor !== undefined)
+    }
+
+
+    /**
+     * Iterates over all items (key, value), ordered by key.
+     * The items are read page by page, so large databases are not loaded into memory at once.
+     *
+     * @param {ScanOptions} options
+     *  `prefix`, `match` like `scan()`.
+     *  `count`: Number of items read per page (default: 1000).
+     *
+     * @category Scan
+     *
+     * @example
+     * for (const {key, value} of store.iterateItems({match: "user:*"})) {
+     *     console.log(key, value)
+     * }
+     */
+    *iterateItems<T = any>(options?: ScanOptions): Generator<Item<T>> {
+        let cursor: string | undefined
+        do {
+            const result = this.scanRecords(cursor, options, true, ITERATE_COUNT)
+            cursor = result.cursor
+            for (const record of result.records) {
+                yield {
+                    key: record.key,
+                    value: this.getRecordValue<T>(record.key, record)
+                }
+            }
+        } while (cursor !== undefined)
+    }
+
+
+    getExpiringItemsCount(): number {
+        return this.statements.countExpiring.get()!.count
+    }
+
+
+    // If there are more expiring items in the database than `maxExpiringItemsInDb`,
+    // the oldest items are deleted until there are only `maxExpiringItemsInDb` items with
+    // an expiration date in the database.
+    deleteOldExpiringItems(maxExpiringItemsInDb?: number) {
+        let maxExpiringItems: number | undefined = maxExpiringItemsInDb ?? this.maxExpiringItemsInDb
+        if (maxExpiringItems === undefined) return
+
+        this.runTransaction(() => {
+            const count = this.getExpiringItemsCount()
+            if (count <= maxExpiringItems) return
+
+            const limit = count - maxExpiringItems
+            this.runDeleteStatement(this.statements.deleteExpiring, {limit}, "delete")
+        })
+    }
+
+
+    // Alias for deleteOldExpiringItems
+    deleteOldestExpiringItems = this.deleteOldExpiringItems
+
+
+    /**
+     * Returns the approximate size of all keys and values in bytes.
+     * The size is calculated from the stored (serialized, compressed, encrypted) values.
+     * Expired items are included.
+     *
+     * @category Eviction
+     * @returns {number}
+     */
+    getSize(): number {
+        return this.statements.getSize.get()!.size
+    }
+
+
+    /**
+     * Evicts items if the limits `maxItems` or `maxBytes` are exceeded.
+     * Expired items are deleted first, then items are evicted in the order of the `evictionPolicy`
+     * until the `evictionLowWaterMark` of the limits is reached.
+     * Writes call `evict()` automatically, so calling it is only necessary
+     * if other processes write into the database.
+     *
+     * @category Eviction
+     * @returns {number}
+     *  Number of evicted items (without the deleted expired items)
+     *
+     * @remarks
+     * Inspired by: https://redis.io/docs/latest/develop/reference/eviction/
+     */
+    evict(): number {
+        return this.evictItems()
+    }
+
+
+    // Evicts items down to the low-water mark if a limit is exceeded. The item `excludedKey` is never evicted.
+    // The limits are checked with the counters, so that the items don't have to be read.
+    // `volatile-lru` stops if there are no more items with an expiration time.
+    private evictItems(excludedKey?: Key): number {
+        if (!this.evictionStatement) return 0
+        return this.transaction(() => {
+            const {items, bytes} = this.countersStatement!.get()!
+            if (items <= (this.maxItems ?? Infinity) && bytes <= (this.maxBytes ?? Infinity)) return 0
+            // Delete the expired items first, then evict down to the low-water mark
+            this.deleteExpired()
+            const counters = this.countersStatement!.get()!
+            const lowWaterMark = this.evictionLowWaterMark
+            let excessItems: number = this.maxItems === undefined ? 0 : counters.items - Math.floor(this.maxItems * lowWaterMark)
+            let excessBytes: number = this.maxBytes === undefined ? 0 : counters.bytes - Math.floor(this.maxBytes * lowWaterMark)
+            const evictedKeys: Key[] = []
+            while (excessItems > 0 || excessBytes > 0) {
+                const limit: number = Math.max(excessItems, EVICTION_BATCH_SIZE)
+                const candidates = this.evictionStatement!.all({excludedKey: excludedKey ?? null, limit})
+                if (!candidates.length) break
+                for (const {key, size} of candidates) {
+                    if (excessItems <= 0 && excessBytes <= 0) break
+                    this.statements.delete.run({key})
+                    evictedKeys.push(key)
+                    excessItems--
+                    excessBytes -= size
+                }
+            }
+            evictedKeys.forEach((key) => this.emitKeyEvent({type: "evict", key}))
+            return evictedKeys.length
+        })
+    }
+
+
+    // Emits the `set` event of the written item and evicts items if the limits are exceeded
+    private itemWritten(key: Key) {
+        this.emitKeyEvent({type: "set", key})
+        this.evictItems(key)
+    }
+
+
+    // Proxy for data object
+    private getDataObject(): {[key: Key]: any} {
         const self = this
         return new Proxy({}, {
 
@@ -512,23 +1375,224 @@ export class BunSqliteKeyValue {
     }
 
 
+    // Deletes the rows of expired keys and emits `expire` events.
+    private deleteExpiredKeys(keys: Key[]) {
+        if (!keys.length) return
+        this.runTransaction(() => {
+            keys.forEach((key) => this.statements.delete.run({key}))
+        })
+        keys.forEach((key) => this.emitKeyEvent({type: "expire", key}))
+    }
+
+
+    // Runs a DELETE statement which returns the deleted keys.
+    // The keys are only fetched if someone listens to `type` events.
+    private runDeleteStatement(statement: Statement<{key: Key}>, params: {}, type: KeyEventType) {
+        if (this.hasKeyEventListeners(type)) {
+            statement.all(params).forEach(({key}) => this.emitKeyEvent({type, key}))
+        } else {
+            statement.run(params)
+        }
+    }
+
+
+    // Records the name of the serializer in a new database.
+    // Databases created by older versions contain v8 serialized values.
+    // Raises an error if the database was written with another serializer.
+    private checkSerializer() {
+        const name = this.serializer.name
+        let recordedName = this.statements.getSetting.get({name: "serializer"})?.value
+        if (recordedName === undefined) {
+            recordedName = this.getCount() ? "v8" : name
+            this.statements.setSetting.run({name: "serializer", value: recordedName})
+        }
+        if (recordedName !== name) {
+            throw new Error(
+                SERIALIZER_MISMATCH_ERROR_LABEL +
+                ` The database was written with the "${recordedName}" serializer, not with "${name}".`
+            )
+        }
+    }
+
+
+    // Checks if the encryption key matches the key check value recorded in the database.
+    // The key check value and the key derivation parameters are recorded in new databases.
+    private checkEncryptionKey(secret: EncryptionKey | undefined) {
+        const keyCheck = this.statements.getSetting.get({name: "encryption_key_check"})?.value
+        if (keyCheck === undefined) {
+            if (!secret) return
+            if (this.getCount()) {
+                throw new Error(
+                    ENCRYPTION_KEY_ERROR_LABEL +
+                    " The database contains unencrypted values. Use `rotateEncryptionKey()` to encrypt them."
+                )
+            }
+            this.encryptionKeys.set(this.tables.prefix, {secret, key: this.setEncryptionKeyCheck(this.statements, secret)})
+        } else if (!secret) {
+            throw new Error(ENCRYPTION_KEY_ERROR_LABEL + " The database is encrypted, but no encryption key was given.")
+        } else {
+            // Another store of the connection has already derived the key
+            const knownKey = this.encryptionKeys.get(this.tables.prefix)
+            const key = typeof secret === "string" && knownKey?.secret === secret
+                ? knownKey.key
+                : this.getValidEncryptionKey(this.statements, secret)
+            if (!key) {
+                throw new Error(ENCRYPTION_KEY_ERROR_LABEL + " The encryption key does not match.")
+            }
+            this.encryptionKeys.set(this.tables.prefix, {secret, key})
+        }
+    }
+
+
+    // Returns the AES key of this namespace or `undefined` if the namespace is not encrypted
+    private get encryptionKey(): Buffer | undefined {
+        return this.encryptionKeys.get(this.tables.prefix)?.key
+    }
+
+
+    // Derives the key from `secret` with new key derivation parameters and records them
+    // together with the encrypted key check text. Returns the derived key.
+    private setEncryptionKeyCheck(statements: Statements, secret: EncryptionKey): Buffer {
+        const kdfParams = createKdfParams()
+        const key = getEncryptionKey(secret, kdfParams)
+        const keyCheck = encrypt(Buffer.from(ENCRYPTION_KEY_CHECK_TEXT), key, getAssociatedData(["key_check"]))
+        statements.setSetting.run({name: "encryption_kdf", value: JSON.stringify(kdfParams)})
+        statements.setSetting.run({name: "encryption_key_check", value: Buffer.from(keyCheck).toString("base64")})
+        return key
+    }
+
+
+    // Derives the key from `secret` with the recorded key derivation parameters.
+    // Returns `undefined` if the key check value can't be decrypted with the key.
+    private getValidEncryptionKey(statements: Statements, secret: EncryptionKey): Buffer | undefined {
+        const keyCheck = statements.getSetting.get({name: "encryption_key_check"})?.value
+        const kdfParams = statements.getSetting.get({name: "encryption_kdf"})?.value
+        if (keyCheck === undefined || kdfParams === undefined) return
+        const key = getEncryptionKey(secret, JSON.parse(kdfParams) as KdfParams)
+        try {
+            const associatedData = getAssociatedData(["key_check"])
+            const text = Buffer.from(decrypt(Buffer.from(keyCheck, "base64"), key, associatedData)).toString()
+            return text === ENCRYPTION_KEY_CHECK_TEXT ? key : undefined
+        } catch {
+            return
+        }
+    }
+
+
+    // Serializes the value for the `value` and `compression` columns.
+    // The serialized value is only stored compressed if it becomes smaller.
+    // Compressed or not, the value is encrypted if there is an encryption key.
+    // The `location` of the value (e.g. `["hash", key, field]`) is authenticated with the value.
+    private encodeValue(value: any, location: string[]): EncodedValue {
+        let data = this.serializer.serialize(value)
+        let compression: CompressionAlgorithm | null = null
+        if (this.compression && data.byteLength >= (this.compression.minBytes ?? COMPRESSION_MIN_BYTES)) {
+            const algorithm = this.compression.algorithm ?? "gzip"
+            const compressedData = compress(data, algorithm, this.compression.level)
+            if (compressedData.byteLength < data.byteLength) {
+                data = compressedData
+                compression = algorithm
+            }
+        }
+        const encryptionKey = this.encryptionKey
+        if (encryptionKey) {
+            data = encrypt(data, encryptionKey, getAssociatedData(location))
+        }
+        return {value: data, compression}
+    }
+
+
+    // Decrypts, decompresses and deserializes the content of the `value` column
+    private decodeValue<T = any>(record: Partial<EncodedValue> | null | undefined, location: string[]): T | undefined {
+        if (!record?.value) return
+        let data = record.value
+        const encryptionKey = this.encryptionKey
+        if (encryptionKey) data = decrypt(data, encryptionKey, getAssociatedData(location))
+        if (record.compression) data = decompress(data, record.compression)
+        return this.serializer.deserialize(data)
+    }
+
+
+    // Returns the expiration timestamp for `ttlMs` or the default TTL.
+    // With sliding expiration (option `slidingTtl`), the TTL is returned as well,
+    // so that read accesses can renew the expiration timestamp.
+    private getExpiration(ttlMs?: TtlMs, sliding: boolean = this.slidingTtl): Expiration {
+        ttlMs = ttlMs ?? this.ttlMs
+        if (ttlMs !== undefined && ttlMs > 0) {
+            return {expires: Date.now() + ttlMs, slidingTtl: sliding ? ttlMs : null}
+        }
+        return {expires: null, slidingTtl: null}
+    }
+
+
+    // Returns the expiration for the TTL or the expiration options of `set()`.
+    // `keepTtl` returns the expiration of the existing (not expired) item.
+    private getSetExpiration(key: Key, ttlMsOrOptions?: TtlMs | SetOptions): Expiration {
+        if (typeof ttlMsOrOptions !== "object") return this.getExpiration(ttlMsOrOptions)
+        const {ttlMs, expiresAt, keepTtl, slidingTtl} = ttlMsOrOptions
+        if (keepTtl) {
+            const expiration = this.statements.getExpires.get({key})
+            if (expiration && !(expiration.expires && expiration.expires < Date.now())) {
+                return expiration
+            }
+        }
+        if (expiresAt !== undefined) return {expires: toTimestamp(expiresAt), slidingTtl: null}
+        return this.getExpiration(ttlMs, slidingTtl)
+    }
+
+
+    // Reads the database row of `key`. Expired rows are deleted.
+    private getValidRecord(key: Key): Omit<Record, "key"> | undefined {
+        const record = this.statements.getItem.get({key})
+        if (!record) return
+        if (record.expires && record.expires < Date.now()) {
+            this.deleteExpiredKeys([key])
+            return
+        }
+        return record
+    }
+
+
+    // Returns the value of the database row.
+    // The fields of hashes are read from the hash fields table and returned as Map object.
+    // The elements of lists are read from the list elements table and returned as array.
+    // The members of sorted sets are returned as Map object (member --> score), ordered by score.
+    private getRecordValue<T = any>(key: Key, record: Partial<Omit<Record, "key">>): T | undefined {
+        if (record.type === "zset") {
+            const members = this.statements.getSortedSetRange.all({key, limit: -1, offset: 0})
+            return new Map(members.map(({member, score}) => [member, score])) as T
+        }
+        if (record.type === "list") {
+            return this.statements.getListElements.all({key}).map((elementRecord) => {
+                return this.decodeValue(elementRecord, ["list", key])
+            }) as T
+        }
+        if (record.type === "hash") {
+            const fieldRecords = this.statements.getHashFields.all({key})
+            return new Map(fieldRecords.map((fieldRecord) => {
+                return [fieldRecord.field, this.decodeValue(fieldRecord, ["hash", key, fieldRecord.field])]
+            })) as T
+        }
+        return this.decodeValue<T>(record, ["value", key])
+    }
+
+
     // @remarks
     // Inspired by: https://docs.keydb.dev/docs/commands/#incrby
-    incr(key: Key, incrBy: number = 1, ttlMs?: TtlMs): number {
-        // @ts-ignore (Transaction returns a number or NaN, not void.)
-        return this.db.transaction(() => {
+    incr(key: Key, incrBy: number = 1, ttlMsOrOptions?: TtlMs | SetOptions): number {
+        return this.transaction(() => {
             const newValue = Number(this.get<number>(key) ?? 0) + incrBy
             if (isNaN(newValue)) return NaN
-            this.set<number>(key, newValue, ttlMs)
+            this.set<number>(key, newValue, ttlMsOrOptions)
             return newValue
-        }).immediate()
+        })
     }
 
 
     // @remarks
     // Inspired by: https://docs.keydb.dev/docs/commands/#decrby
-    decr(key: Key, decrBy: number = 1, ttlMs?: TtlMs): number {
-        return this.incr(key, decrBy * -1, ttlMs)
+    decr(key: Key, decrBy: number = 1, ttlMsOrOptions?: TtlMs | SetOptions): number {
+        return this.incr(key, decrBy * -1, ttlMsOrOptions)
     }
 
 
@@ -539,12 +1603,11 @@ export class BunSqliteKeyValue {
     // @remarks
     // Inspired by: https://docs.keydb.dev/docs/commands/#append
     append(key: Key, value: string, ttlMs?: TtlMs): number {
-        // @ts-ignore (Transaction returns a number, not void.)
-        return this.db.transaction(() => {
+        return this.transaction(() => {
             const newValue = String(this.get<string>(key) ?? "") + value
             this.set<string>(key, newValue, ttlMs)
             return newValue.length
-        }).immediate()
+        })
     }
 
 
@@ -552,12 +1615,11 @@ export class BunSqliteKeyValue {
     // @remarks
     // Inspired by: https://docs.keydb.dev/docs/commands/#getset
     getSet<T = any>(key: Key, value: T, ttlMs?: TtlMs): T | undefined {
-        // @ts-ignore (Transaction returns a number, not void.)
-        return this.db.transaction(() => {
+        return this.transaction(() => {
             const oldValue = this.get<T>(key)
             this.set<T>(key, value, ttlMs)
             return oldValue
-        }).immediate()
+        })
     }
 
 
@@ -577,9 +1639,10 @@ export class BunSqliteKeyValue {
     getRandomItem<T = any>(): Item<T> | undefined {
         const record = this.statements.getRandomItem.get({now: Date.now()})
         if (!record) return
+        this.recordAccess([record])
         return {
             key: record.key,
-            value: record.value ? deserialize(record.value) as T : undefined
+            value: this.getRecordValue<T>(record.key, record)
         }
     }
 
@@ -606,16 +1669,19 @@ export class BunSqliteKeyValue {
     // @remarks
     // Inspired by: https://docs.keydb.dev/docs/commands/#rename
     rename(oldKey: Key, newKey: Key): boolean {
-        // @ts-ignore (Transaction returns boolean, not void.)
-        return this.db.transaction(() => {
+        return this.transaction(() => {
             if (this.has(oldKey)) {
                 this.statements.delete.run({key: newKey})
                 this.statements.rename.run({oldKey, newKey})
+                // The key is part of the associated data of the encrypted values
+                const encryptionKey = this.encryptionKey
+                if (encryptionKey) this.reEncryptValues(this.statements, encryptionKey, encryptionKey, {oldKey, newKey})
+                this.emitKeyEvent({type: "rename", key: oldKey, newKey})
                 return true
             } else {
                 return false
             }
-        }).immediate()
+        })
     }
 
 
@@ -624,12 +1690,80 @@ export class BunSqliteKeyValue {
     // @remarks
     // Inspired by: https://docs.keydb.dev/docs/commands/#touch
     setTtl(key: Key, ttlMs?: TtlMs): boolean {
-        let expires: number | undefined
-        ttlMs = ttlMs ?? this.ttlMs
-        if (ttlMs !== undefined && ttlMs > 0) {
-            expires = Date.now() + ttlMs
+        return this.statements.setExpires.run({key, ...this.getExpiration(ttlMs)}).changes === 1
+    }
+
+
+    /**
+     * Sets the absolute expiration time of the item.
+     * A time in the past lets the item expire immediately.
+     *
+     * @category TTL
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {number | Date} timestamp
+     *  Expiration time (timestamp in milliseconds or `Date`)
+     * @returns {boolean}
+     *  Returns `true` if the `key` exists.
+     *
+     * @remarks
+     * Inspired by: https://redis.io/docs/latest/commands/pexpireat/
+     *
+     * @example
+     * const midnight = new Date()
+     * midnight.setHours(24, 0, 0, 0)
+     * store.expireAt("session", midnight)
+     */
+    expireAt(key: Key, timestamp: number | Date): boolean {
+        return this.transaction(() => {
+            if (!this.has(key)) return false
+            const expiration: Expiration = {expires: toTimestamp(timestamp), slidingTtl: null}
+            return this.statements.setExpires.run({key, ...expiration}).changes === 1
+        })
+    }
+
+
+    /**
+     * Removes the expiration time of the item, so that it never expires.
+     *
+     * @category TTL
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @returns {boolean}
+     *  Returns `true` if the expiration time was removed.
+     *  Returns `false` if the `key` does not exist or has no expiration time.
+     *
+     * @remarks
+     * Inspired by: https://redis.io/docs/latest/commands/persist/
+     */
+    persist(key: Key): boolean {
+        return this.transaction(() => {
+            if (this.getExpiresAt(key) === undefined) return false
+            return this.statements.setExpires.run({key, expires: null, slidingTtl: null}).changes === 1
+        })
+    }
+
+
+    /**
+     * Returns the absolute expiration time of the item (timestamp in milliseconds).
+     *
+     * @category TTL
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @returns {number | undefined}
+     *  Returns `undefined` if the `key` does not exist or has no expiration time.
+     *
+     * @remarks
+     * Inspired by: https://redis.io/docs/latest/commands/pexpiretime/
+     */
+    getExpiresAt(key: Key): number | undefined {
+        const expires = this.statements.getExpires.get({key})?.expires
+        if (!expires) return
+        if (expires < Date.now()) {
+            this.deleteExpiredKeys([key])
+            return
         }
-        return this.statements.setExpires.run({key, expires}).changes === 1
+        return expires
     }
 
 
@@ -644,7 +1778,7 @@ export class BunSqliteKeyValue {
         if (!expires) return
         const now = Date.now()
         if (expires < now) {
-            this.delete(key)
+            this.deleteExpiredKeys([key])
             return
         }
         return expires - now
@@ -653,11 +1787,65 @@ export class BunSqliteKeyValue {
 
     //
 
+    // Returns the Map object of a hash which was stored by older versions
+    // as serialized Map object in the `value` column.
+    private getLegacyHash<T = any>(key: Key, record: Omit<Record, "key">): Map<Field, T> | undefined {
+        if (!record.value) return
+        const map = this.decodeValue(record, ["value", key])
+        if (map instanceof Map) return map
+    }
+
+
+    // Reads the fields of the hash stored at `key` as Map object.
+    // If `fields` is specified, only these fields are read.
+    // Returns `undefined` if the key does not exist or the value is not a hash.
+    private getHashMap<T = any>(key: Key, fields?: Field[]): Map<Field, T> | undefined {
+        const record = this.getValidRecord(key)
+        if (!record) return
+        this.recordAccess([{...record, key}])
+        if (record.type !== "hash") {
+            const map = this.getLegacyHash<T>(key, record)
+            if (!map || !fields) return map
+            return new Map(fields.filter((field) => map.has(field)).map((field) => [field, map.get(field)!]))
+        }
+        if (!fields) {
+            return this.getRecordValue<Map<Field, T>>(key, record)
+        }
+        const map = new Map<Field, T>()
+        fields.forEach((field) => {
+            const fieldRecord = this.statements.getHashField.get({key, field})
+            if (!fieldRecord) return
+            map.set(field, this.decodeValue(fieldRecord, ["hash", key, field]) as T)
+        })
+        return map
+    }
+
+
+    // Prepares the item at `key` to store its fields in the hash fields table.
+    // Hashes stored by older versions as serialized Map object are moved to the hash fields table.
+    // Raises an error if the value at `key` is not a hash.
+    private prepareHash(key: Key) {
+        const record = this.getValidRecord(key)
+        if (record?.type === "hash") return
+        let legacyMap: Map<Field, any> | undefined
+        if (record) {
+            legacyMap = this.getLegacyHash(key, record)
+            if (!legacyMap) {
+                throw new Error(NO_MAP_ERROR_LABEL + ` Value at "${key.substring(-80)}" is not a hash.`)
+            }
+        }
+        this.statements.setTypedItem.run({key, expires: null, type: "hash"})
+        legacyMap?.forEach((value, field) => {
+            this.statements.setHashField.run({key, field, ...this.encodeValue(value, ["hash", key, field])})
+        })
+    }
+
+
     /**
      * Hash (Map Object) - Write Value
      *
-     * Do not use it with several very large amounts of data or blobs.
-     * This is because the entire data record with all fields is always read and written.
+     * Each field is stored in its own database row,
+     * so only the affected field is read and written.
      *
      * @category Hash (Map Object)
      * @param {Key} key
@@ -665,30 +1853,29 @@ export class BunSqliteKeyValue {
      * @param {Field} field
      * @param {T} value
      *  {@link Value More informations about `value`.}
-     * @param {TtlMs} ttlMs
+     * @param {TtlMs | SetOptions} ttlMsOrOptions
+     *  Time to live in milliseconds or expiration options (`ttlMs`, `expiresAt`, `keepTtl`)
      * @returns {boolean}
      *
      * @remarks
      * Inspired by: https://docs.keydb.dev/docs/commands/#hset
      */
-    hSet<T = any>(key: Key, field: Field, value: T, ttlMs?: TtlMs): boolean {
-        // @ts-ignore (Transaction returns boolean, not void.)
-        return this.db.transaction(() => {
-            const map = this.get<Map<string, T>>(key) ?? new Map<string, T>()
-            const isNewField: boolean = !map.has(field)
-            map.set(field, value)
-            this.set(key, map, ttlMs)
+    hSet<T = any>(key: Key, field: Field, value: T, ttlMsOrOptions?: TtlMs | SetOptions): boolean {
+        return this.transaction(() => {
+            const expiration = this.getSetExpiration(key, ttlMsOrOptions)
+            this.prepareHash(key)
+            const isNewField: boolean = !this.statements.getHashField.get({key, field})
+            this.statements.setHashField.run({key, field, ...this.encodeValue(value, ["hash", key, field])})
+            this.statements.setExpires.run({key, ...expiration})
+            this.itemWritten(key)
             return isNewField
-        }).immediate()
+        })
     }
 
 
     /**
      * Hash (Map Object) - Read Value
      *
-     * Do not use it with several very large amounts of data or blobs.
-     * This is because the entire data record with all fields is always read and written.
-     *
      * @category Hash (Map Object)
      * @param {Key} key
      *  {@link Key More informations about `key`.}
@@ -699,18 +1886,13 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#hget
      */
     hGet<T = any>(key: Key, field: Field): T | undefined {
-        const map = this.get<Map<string, T>>(key)
-        if (map === undefined) return
-        return map.get(field)
+        return this.getHashMap<T>(key, [field])?.get(field)
     }
 
 
     /**
      * Hash (Map Object) - Write Multiple Values
      *
-     * Do not use it with several very large amounts of data or blobs.
-     * This is because the entire data record with all fields is always read and written.
-     *
      * @category Hash (Map Object)
      * @param {Key} key
      *  {@link Key More informations about `key`.}
@@ -721,22 +1903,20 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#hmset
      */
     hmSet<T = any>(key: Key, fields: {[field: Field]: T}, ttlMs?: TtlMs) {
-        this.db.transaction(() => {
-            const map = this.get<Map<string, T>>(key) ?? new Map<string, T>()
+        this.transaction(() => {
+            this.prepareHash(key)
             Object.entries(fields).forEach(([field, value]) => {
-                map.set(field, value)
+                this.statements.setHashField.run({key, field, ...this.encodeValue(value, ["hash", key, field])})
             })
-            this.set(key, map, ttlMs)
-        }).immediate()
+            this.statements.setExpires.run({key, ...this.getExpiration(ttlMs)})
+            this.itemWritten(key)
+        })
     }
 
 
     /**
      * Hash (Map Object) - Read Multiple Values
      *
-     * Do not use it with several very large amounts of data or blobs.
-     * This is because the entire data record with all fields is always read and written.
-     *
      * @category Hash (Map Object)
      * @param {Key} key
      *  {@link Key More informations about `key`.}
@@ -747,7 +1927,7 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#hmget
      */
     hmGet<T = any>(key: Key, fields?: string[]): {[field: Field]: T | undefined} | undefined {
-        const map = this.get<Map<string, T>>(key)
+        const map = this.getHashMap<T>(key, fields)
         if (map === undefined) return
         const result: {[field: Field]: T | undefined} = {}
         if (fields) {
@@ -766,9 +1946,6 @@ export class BunSqliteKeyValue {
      *
      * Returns if `field` is an existing field in the hash stored at `key`.
      *
-     * Do not use it with several very large amounts of data or blobs.
-     * This is because the entire data record with all fields is always read.
-     *
      * @category Hash (Map Object)
      * @param {Key} key
      *  {@link Key More informations about `key`.}
@@ -779,9 +1956,7 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#hexists
      */
     hHasField(key: Key, field: Field): boolean | undefined {
-        const map = this.get<Map<string, any>>(key)
-        if (map === undefined) return
-        return map.has(field)
+        return this.getHashMap(key, [field])?.has(field)
     }
 
 
@@ -801,9 +1976,13 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#hlen
      */
     hGetCount(key: Key): number | undefined {
-        const map = this.get<Map<string, any>>(key)
-        if (map === undefined) return
-        return map.size
+        const record = this.getValidRecord(key)
+        if (!record) return
+        this.recordAccess([{...record, key}])
+        if (record.type !== "hash") {
+            return this.getLegacyHash(key, record)?.size
+        }
+        return this.statements.countHashFields.get({key})!.count
     }
 
 
@@ -823,9 +2002,15 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#hkeys
      */
     hGetFields(key: Key): string[] | undefined {
-        const map = this.get<Map<string, any>>(key)
-        if (map === undefined) return
-        return Array.from(map.keys())
+        const record = this.getValidRecord(key)
+        if (!record) return
+        this.recordAccess([{...record, key}])
+        if (record.type !== "hash") {
+            const map = this.getLegacyHash(key, record)
+            if (map === undefined) return
+            return Array.from(map.keys())
+        }
+        return this.statements.getHashFieldNames.all({key}).map(({field}) => field)
     }
 
 
@@ -838,10 +2023,6 @@ export class BunSqliteKeyValue {
      *
      * Use `hmGet()` to read *field names* and *values*.
      *
-     * Do not use the hash functions with several very large amounts of data or blobs.
-     * This is because the entire data record with all fields is always read and written.
-     * It is better to use `setValues()` and `getValues()` for large amounts of data.
-     *
      * @category Hash (Map Object)
      * @param {Key} key
      *  {@link Key More informations about `key`.}
@@ -865,7 +2046,7 @@ export class BunSqliteKeyValue {
      * ```
      */
     hGetValues<T = any>(key: Key): T[] | undefined {
-        const map = this.get<Map<string, T>>(key)
+        const map = this.getHashMap<T>(key)
         if (map === undefined) return
         return Array.from(map.values())
     }
@@ -891,14 +2072,14 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#hdel
      */
     hDelete(key: Key, field: Field): boolean | undefined {
-        // @ts-ignore (Transaction returns boolean, not void.)
-        return this.db.transaction(() => {
-            const map = this.get<Map<string, any>>(key)
-            if (map === undefined) return
-            const result = map.delete(field)
-            this.set(key, map)
-            return result
-        }).immediate()
+        return this.transaction(() => {
+            if (!this.has(key)) return
+            this.prepareHash(key)
+            if (!this.statements.deleteHashField.run({key, field}).changes) return false
+            this.statements.touchItem.run({key})
+            this.itemWritten(key)
+            return true
+        })
     }
 
 
@@ -915,21 +2096,18 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#hincrby
      */
     hIncr(key: Key, field: Field, incrBy: number = 1, ttlMs?: TtlMs): number {
-        // @ts-ignore (Transaction returns boolean, not void.)
-        return this.db.transaction(() => {
-            const map = this.get<Map<string, number>>(key) ?? new Map<string, number>()
-            let newValue: number
+        return this.transaction(() => {
             try {
-                newValue = Number(map.get(field) ?? 0) + incrBy
+                const newValue = Number(this.hGet<number>(key, field) ?? 0) + incrBy
+                if (isNaN(newValue)) return NaN
+                this.hSet<number>(key, field, newValue, ttlMs)
+                return newValue
             } catch (error: any) {
-                if (error.toString().includes("TypeError")) return NaN
+                const message: string = error.toString()
+                if (message.includes("TypeError") || message.includes(NO_MAP_ERROR_LABEL)) return NaN
                 throw error
             }
-            if (isNaN(newValue)) return NaN
-            map.set(field, newValue)
-            this.set(key, map, ttlMs)
-            return newValue
-        }).immediate()
+        })
     }
 
 
@@ -950,9 +2128,65 @@ export class BunSqliteKeyValue {
     }
 
 
+    // Returns the array of a list which was stored by older versions
+    // as serialized array in the `value` column.
+    // Raises an error if the value is not an array.
+    private getLegacyList<T = any>(key: Key, record: Omit<Record, "key">): Array<T> {
+        const array = this.decodeValue(record, ["value", key])
+        if (Array.isArray(array) === false) {
+            throw new Error(NO_ARRAY_ERROR_LABEL + ` Value at "${key.substring(-80)}" is not an array.`)
+        }
+        return array
+    }
+
+
+    // Returns the positions of the first and the last element of the list stored at `key`.
+    // The positions of the elements of a list are always contiguous.
+    private getListBounds(key: Key): {first: number, last: number, length: number} {
+        const {first, last} = this.statements.getListBounds.get({key})!
+        if (first === null || last === null) return {first: 0, last: -1, length: 0}
+        return {first, last, length: last - first + 1}
+    }
+
+
+    // Prepares the item at `key` to store its elements in the list elements table.
+    // Lists stored by older versions as serialized array are moved to the list elements table.
+    // Raises an error if the value at `key` is not a list.
+    private prepareList(key: Key) {
+        const record = this.getValidRecord(key)
+        if (record?.type === "list") return
+        const legacyArray = record ? this.getLegacyList(key, record) : undefined
+        this.statements.setTypedItem.run({key, expires: null, type: "list"})
+        legacyArray?.forEach((value, position) => {
+            this.statements.addListElement.run({key, position, ...this.encodeValue(value, ["list", key])})
+        })
+    }
+
+
+    // Removes `count` elements from the begin (`fromEnd` is `false`)
+    // or the end (`fromEnd` is `true`) of the list.
+    // The elements are returned in the order in which they were removed.
+    private popListElements<T = any>(key: Key, count: number, fromEnd: boolean): T[] {
+        const {first, last, length} = this.getListBounds(key)
+        if (!length) return []
+        const from = fromEnd ? Math.max(last - count + 1, first) : first
+        const to = fromEnd ? last : Math.min(first + count - 1, last)
+        const values = this.statements.getListElementsRange.all({key, from, to}).map((elementRecord) => {
+            return this.decodeValue(elementRecord, ["list", key]) as T
+        })
+        this.statements.deleteListElementsRange.run({key, from, to})
+        this.statements.setExpires.run({key, ...this.getExpiration()})
+        this.itemWritten(key)
+        return fromEnd ? values.reverse() : values
+    }
+
+
     /**
      * Array - Left Push - Adds elements at the begin of the array.
      *
+     * Each element is stored in its own database row,
+     * so only the new elements are written.
+     *
      * @category List (Array Object)
      * @param {Key} key
      *  {@link Key More informations about `key`.}
@@ -965,29 +2199,29 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#lpush
      */
     lPush<T = any>(key: Key, ...values: T[]): number {
-        // @ts-ignore (Transaction returns number, not void.)
-        return this.db.transaction(() => {
-            const array = this.get<Array<T>>(key) ?? new Array<T>()
-            let newLength: number | undefined
-            try {
-                values.forEach((value) => {
-                    newLength = array.unshift(value)
-                })
-            } catch (error: any) {
-                if (error.toString().includes("TypeError")) {
-                    throw new Error(NO_ARRAY_ERROR_LABEL + ` Value at "${key.substring(-80)}" is not an array.`)
-                }
-                throw error
-            }
-            this.set<Array<T>>(key, array)
-            return newLength
-        }).immediate()
+        const newLength: number = this.transaction(() => {
+            this.prepareList(key)
+            let {first, length} = this.getListBounds(key)
+            values.forEach((value) => {
+                first--
+                this.statements.addListElement.run({key, position: first, ...this.encodeValue(value, ["list", key])})
+            })
+            this.statements.setExpires.run({key, ...this.getExpiration()})
+            this.itemWritten(key)
+            return length + values.length
+        })
+        // Wake up waiting blocking pops
+        this.listPushListeners.forEach((listener) => listener())
+        return newLength
     }
 
 
     /**
      * Array - Right Push - Adds elements at the end of the array.
      *
+     * Each element is stored in its own database row,
+     * so only the new elements are written.
+     *
      * @category List (Array Object)
      * @param {Key} key
      *  {@link Key More informations about `key`.}
@@ -1000,21 +2234,20 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#rpush
      */
     rPush<T = any>(key: Key, ...values: T[]): number {
-        // @ts-ignore (Transaction returns number, not void.)
-        return this.db.transaction(() => {
-            const array = this.get<Array<T>>(key) ?? new Array<T>()
-            let newLength: number
-            try {
-                newLength = array.push(...values)
-            } catch (error: any) {
-                if (error.toString().includes("TypeError")) {
-                    throw new Error(NO_ARRAY_ERROR_LABEL + ` Value at "${key.substring(-80)}" is not an array.`)
-                }
-                throw error
-            }
-            this.set<Array<T>>(key, array)
-            return newLength
-        }).immediate()
+        const newLength: number = this.transaction(() => {
+            this.prepareList(key)
+            let {last, length} = this.getListBounds(key)
+            values.forEach((value) => {
+                last++
+                this.statements.addListElement.run({key, position: last, ...this.encodeValue(value, ["list", key])})
+            })
+            this.statements.setExpires.run({key, ...this.getExpiration()})
+            this.itemWritten(key)
+            return length + values.length
+        })
+        // Wake up waiting blocking pops
+        this.listPushListeners.forEach((listener) => listener())
+        return newLength
     }
 
 
@@ -1035,29 +2268,16 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#lpop
      */
     lPop<T = any>(key: Key, count?: number): T | T[] | undefined {
-        // @ts-ignore (Transaction returns array elements, not void.)
-        return this.db.transaction(() => {
-            const array = this.get<Array<T>>(key)
-            if (array === undefined) return
-            let result: T | T[]
-            try {
-                if (count === undefined) {
-                    result = array.shift() as T
-                } else if (count > 0) {
-                    result = array.splice(0, count)
-                    if (!result?.length) return
-                } else {
-                    throw new Error(INVALID_COUNT_ERROR_LABEL + " `count` must be greater then 0.")
-                }
-            } catch (error: any) {
-                if (error.toString().includes("TypeError")) {
-                    throw new Error(NO_ARRAY_ERROR_LABEL + ` Value at "${key.substring(-80)}" is not an array.`)
-                }
-                throw error
+        return this.transaction(() => {
+            if (!this.has(key)) return
+            this.prepareList(key)
+            if (count !== undefined && count <= 0) {
+                throw new Error(INVALID_COUNT_ERROR_LABEL + " `count` must be greater then 0.")
             }
-            this.set<Array<T>>(key, array)
-            return result
-        }).immediate()
+            const values = this.popListElements<T>(key, count ?? 1, false)
+            if (count === undefined) return values[0]
+            if (values.length) return values
+        })
     }
 
 
@@ -1078,30 +2298,16 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#rpop
      */
     rPop<T = any>(key: Key, count?: number): T | T[] | undefined {
-        // @ts-ignore (Transaction returns array elements, not void.)
-        return this.db.transaction(() => {
-            const array = this.get<Array<T>>(key)
-            if (array === undefined) return
-            let result: T | T[]
-            try {
-                if (count === undefined) {
-                    result = array.pop() as T
-                } else if (count > 0) {
-                    result = array.splice(count * -1, count)
-                    if (!result?.length) return
-                    result.reverse()
-                } else {
-                    throw new Error(INVALID_COUNT_ERROR_LABEL + " `count` must be greater then 0.")
-                }
-            } catch (error: any) {
-                if (error.toString().includes("TypeError")) {
-                    throw new Error(NO_ARRAY_ERROR_LABEL + ` Value at "${key.substring(-80)}" is not an array.`)
-                }
-                throw error
+        return this.transaction(() => {
+            if (!this.has(key)) return
+            this.prepareList(key)
+            if (count !== undefined && count <= 0) {
+                throw new Error(INVALID_COUNT_ERROR_LABEL + " `count` must be greater then 0.")
             }
-            this.set<Array<T>>(key, array)
-            return result
-        }).immediate()
+            const values = this.popListElements<T>(key, count ?? 1, true)
+            if (count === undefined) return values[0]
+            if (values.length) return values
+        })
     }
 
 
@@ -1123,16 +2329,17 @@ export class BunSqliteKeyValue {
      * Inspired by: https://docs.keydb.dev/docs/commands/#lindex
      */
     lIndex<T = any>(key: Key, index: number): T | undefined {
-        const array = this.get<Array<T>>(key)
-        if (array === undefined) return
-        try {
-            return array.at(index)
-        } catch (error: any) {
-            if (error.toString().includes("TypeError")) {
-                throw new Error(NO_ARRAY_ERROR_LABEL + ` Value at "${key.substring(-80)}" is not an array.`)
-            }
-            throw error
+        const record = this.getValidRecord(key)
+        if (!record) return
+        this.recordAccess([{...record, key}])
+        if (record.type !== "list") {
+            return this.getLegacyList<T>(key, record).at(index)
         }
+        const {first, last} = this.getListBounds(key)
+        const position = index < 0 ? last + 1 + index : first + index
+        if (position < first || position > last) return
+        const elementRecord = this.statements.getListElement.get({key, position})
+        return this.decodeValue<T>(elementRecord, ["list", key])
     }
 
 
@@ -1152,12 +2359,13 @@ export class BunSqliteKeyValue {
      * Inspired by: https://www.dragonflydb.io/docs/command-reference/lists/llen
      */
     lLen(key: Key): number {
-        const array = this.get<Array<any>>(key)
-        if (array === undefined) return 0
-        if (Array.isArray(array) === false) {
-            throw new Error(NO_ARRAY_ERROR_LABEL + ` Value at "${key.substring(-80)}" is not an array.`)
+        const record = this.getValidRecord(key)
+        if (!record) return 0
+        this.recordAccess([{...record, key}])
+        if (record.type !== "list") {
+            return this.getLegacyList(key, record).length
         }
-        return array.length
+        return this.getListBounds(key).length
     }
 
 
@@ -1182,207 +2390,1923 @@ export class BunSqliteKeyValue {
      * Inspired by: https://www.dragonflydb.io/docs/command-reference/lists/lset
      */
     lSet<T = any>(key: Key, index: number, value: T): true {
-        // @ts-ignore (Transaction returns boolean or undefined, not void.)
-        return this.db.transaction(() => {
-            const array = this.get<Array<T>>(key)
-            if (array === undefined) {
+        return this.transaction(() => {
+            if (!this.has(key)) {
                 throw new Error(ITEM_NOT_EXISTS_ERROR_LABEL + ` Key "${key.substring(-80)}" not found.`)
             }
-            if (Array.isArray(array) === false) {
-                throw new Error(NO_ARRAY_ERROR_LABEL + ` Value at "${key.substring(-80)}" is not an array.`)
-            }
-            const len = array.length
+            this.prepareList(key)
+            const {first, last, length: len} = this.getListBounds(key)
             if (index >= len || index < (len * -1)) {
                 throw new Error(INDEX_OUT_OF_RANGE_ERROR_LABEL + ` Array length: ${len}`)
             }
-            if (index < 0) {
-                array[len + index] = value
-            } else {
-                array[index] = value
-            }
-            this.set<Array<T>>(key, array)
+            const position = index < 0 ? last + 1 + index : first + index
+            this.statements.setListElement.run({key, position, ...this.encodeValue(value, ["list", key])})
+            this.statements.setExpires.run({key, ...this.getExpiration()})
+            this.itemWritten(key)
             return true
-        }).immediate()
+        })
     }
 
 
-    // ToDo: rPopLPush()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#rpoplpush
-
-
-    // ToDo: sAdd()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#sadd
-
-
-    // ToDo: sCard()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#scard
-
-
-    // ToDo: sDiff()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#sdiff
+    // Iterates over the elements of the list stored at `key` from head to tail
+    // (or from tail to head if `reverse` is true). The elements are read in pages
+    // and decoded one after the other, so that callers can stop early without reading the whole list.
+    // Raises an error if the value at `key` is not a list.
+    private *iterateListElements<T = any>(key: Key, reverse: boolean = false): Generator<{index: number, value: T}> {
+        const record = this.getValidRecord(key)
+        if (!record) return
+        if (record.type !== "list") {
+            const array = this.getLegacyList<T>(key, record)
+            for (let check = 0; check < array.length; check++) {
+                const index = reverse ? array.length - 1 - check : check
+                yield {index, value: array[index]}
+            }
+            return
+        }
+        // The positions are contiguous, so the list can be read page by page
+        const {first, last, length} = this.getListBounds(key)
+        for (let offset = 0; offset < length; offset += LIST_BATCH_SIZE) {
+            const from = reverse ? Math.max(last - offset - LIST_BATCH_SIZE + 1, first) : first + offset
+            const to = reverse ? last - offset : Math.min(from + LIST_BATCH_SIZE - 1, last)
+            const elementRecords = this.statements.getListElementsRange.all({key, from, to})
+            if (reverse) elementRecords.reverse()
+            for (const [pageIndex, elementRecord] of elementRecords.entries()) {
+                const index = reverse ? to - first - pageIndex : from - first + pageIndex
+                yield {index, value: this.decodeValue(elementRecord, ["list", key]) as T}
+            }
+        }
+    }
 
 
-    // ToDo: sDiffStore()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#sdiffstore
+    // Moves the list elements between the positions `from` and `to` (both inclusive)
+    // by one position up (`offset` = 1) or down (`offset` = -1).
+    // The elements are moved one after the other, so that no position is occupied twice.
+    private shiftListElements(key: Key, from: number, to: number, offset: 1 | -1) {
+        if (offset > 0) {
+            for (let position = to; position >= from; position--) {
+                this.statements.moveListElement.run({key, position, newPosition: position + 1})
+            }
+        } else {
+            for (let position = from; position <= to; position++) {
+                this.statements.moveListElement.run({key, position, newPosition: position - 1})
+            }
+        }
+    }
 
 
-    // ToDo: sInter()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#sinter
+    /**
+     * Returns the elements between the indexes `start` and `stop` (both inclusive)
+     * of the list stored at `key`.
+     *
+     * For more information on the index arguments, see `lIndex()`.
+     * Out of range indexes will not produce an error.
+     *
+     * @category List (Array Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {number} start
+     * @param {number} stop
+     * @returns {T[]}
+     *  Returns an empty array if `key` does not exist.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#lrange
+     */
+    lRange<T = any>(key: Key, start: number = 0, stop: number = -1): T[] {
+        const record = this.getValidRecord(key)
+        if (!record) return []
+        this.recordAccess([{...record, key}])
+        if (record.type !== "list") {
+            const array = this.getLegacyList<T>(key, record)
+            return array.slice(start, stop === -1 ? undefined : stop + 1)
+        }
+        const {first, length} = this.getListBounds(key)
+        if (start < 0) start = Math.max(length + start, 0)
+        if (stop < 0) stop = length + stop
+        stop = Math.min(stop, length - 1)
+        if (start > stop) return []
+        const elementRecords = this.statements.getListElementsRange.all({key, from: first + start, to: first + stop})
+        return elementRecords.map((elementRecord) => this.decodeValue(elementRecord, ["list", key]) as T)
+    }
 
 
-    // ToDo: sInterStore()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#sinterstore
+    /**
+     * Trims the list stored at `key`, so that it will contain only
+     * the elements between the indexes `start` and `stop` (both inclusive).
+     *
+     * For more information on the index arguments, see `lIndex()`.
+     * If `start` is larger than the end of the list or `start` > `stop`,
+     * the result will be an empty list.
+     *
+     * @category List (Array Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {number} start
+     * @param {number} stop
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#ltrim
+     */
+    lTrim(key: Key, start: number, stop: number) {
+        this.transaction(() => {
+            if (!this.has(key)) return
+            this.prepareList(key)
+            const {first, last, length} = this.getListBounds(key)
+            if (start < 0) start = Math.max(length + start, 0)
+            if (stop < 0) stop = length + stop
+            if (start > stop || start >= length) {
+                this.statements.deleteListElementsRange.run({key, from: first, to: last})
+            } else {
+                this.statements.deleteListElementsRange.run({key, from: first, to: first + start - 1})
+                this.statements.deleteListElementsRange.run({key, from: first + stop + 1, to: last})
+            }
+            this.statements.setExpires.run({key, ...this.getExpiration()})
+            this.itemWritten(key)
+        })
+    }
 
 
-    // ToDo: sIsMember()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#sismember
+    /**
+     * Removes the first `count` occurrences of elements equal to `value`
+     * from the list stored at `key`.
+     *
+     * - `count` > 0: Removes elements equal to `value` moving from head to tail.
+     * - `count` < 0: Removes elements equal to `value` moving from tail to head.
+     * - `count` = 0: Removes all elements equal to `value`.
+     *
+     * @category List (Array Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {number} count
+     * @param {T} value
+     *  {@link Value More informations about `value`.}
+     * @returns {number}
+     *  The number of removed elements.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#lrem
+     */
+    lRem<T = any>(key: Key, count: number, value: T): number {
+        return this.transaction(() => {
+            if (!this.has(key)) return 0
+            this.prepareList(key)
+            const {first} = this.getListBounds(key)
+            const positionsToDelete: number[] = []
+            for (const {index, value: element} of this.iterateListElements(key, count < 0)) {
+                if (!Bun.deepEquals(element, value)) continue
+                positionsToDelete.push(first + index)
+                if (positionsToDelete.length === Math.abs(count)) break
+            }
+            if (!positionsToDelete.length) return 0
+            positionsToDelete.forEach((position) => {
+                this.statements.deleteListElementsRange.run({key, from: position, to: position})
+            })
+            // Close the gaps behind the first removed element
+            const firstGap = count < 0 ? positionsToDelete.at(-1)! : positionsToDelete[0]
+            let newPosition = firstGap
+            this.statements.getListPositions.all({key, from: firstGap}).forEach(({position}) => {
+                this.statements.moveListElement.run({key, position, newPosition})
+                newPosition++
+            })
+            this.statements.setExpires.run({key, ...this.getExpiration()})
+            this.itemWritten(key)
+            return positionsToDelete.length
+        })
+    }
 
 
-    // ToDo: sMembers() alias for getSet()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#smembers
+    /**
+     * Inserts `value` in the list stored at `key` either before or after the reference value `pivot`.
+     *
+     * An error is returned when the value stored at `key` is not an array.
+     *
+     * @category List (Array Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {"BEFORE" | "AFTER"} where
+     * @param {T} pivot
+     * @param {T} value
+     *  {@link Value More informations about `value`.}
+     * @returns {number}
+     *  The length of the list after the insert operation.
+     *  Returns `0` if `key` does not exist and `-1` if `pivot` was not found.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#linsert
+     */
+    lInsert<T = any>(key: Key, where: "BEFORE" | "AFTER", pivot: T, value: T): number {
+        return this.transaction(() => {
+            if (!this.has(key)) return 0
+            this.prepareList(key)
+            const {first, last, length} = this.getListBounds(key)
+            let index = -1
+            for (const {index: elementIndex, value: element} of this.iterateListElements(key)) {
+                if (!Bun.deepEquals(element, pivot)) continue
+                index = elementIndex
+                break
+            }
+            if (index === -1) return -1
+            // Make room on the shorter side of the list
+            const position = where === "BEFORE" ? first + index : first + index + 1
+            let newPosition: number
+            if (position - first < last - position + 1) {
+                this.shiftListElements(key, first, position - 1, -1)
+                newPosition = position - 1
+            } else {
+                this.shiftListElements(key, position, last, 1)
+                newPosition = position
+            }
+            this.statements.addListElement.run({key, position: newPosition, ...this.encodeValue(value, ["list", key])})
+            this.statements.setExpires.run({key, ...this.getExpiration()})
+            this.itemWritten(key)
+            return length + 1
+        })
+    }
 
 
-    // ToDo: sMove()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#smove
+    /**
+     * Returns the index of matching elements inside the list stored at `key`.
+     *
+     * @category List (Array Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {T} value
+     *  {@link Value More informations about `value`.}
+     * @param {{rank?: number, count?: number, maxLen?: number}} options
+     *  - `rank`: Returns the n-th match (default: 1).
+     *    Negative values search from the tail to the head of the list.
+     *  - `count`: Returns the indexes of up to `count` matches as array.
+     *    Use 0 to return all matches.
+     *  - `maxLen`: Compares `value` with at most `maxLen` elements.
+     * @returns {number | number[] | undefined}
+     *  If `count` is `undefined`, the index of the match or `undefined` is returned.
+     *  Otherwise an array with the indexes is returned.
+     *
+     * @remarks
+     * Inspired by: https://redis.io/docs/latest/commands/lpos/
+     */
+    lPos<T = any>(key: Key, value: T, options?: {rank?: number, count?: number, maxLen?: number}): number | number[] | undefined {
+        const {rank = 1, count, maxLen} = options ?? {}
+        if (rank === 0) {
+            throw new Error(INVALID_COUNT_ERROR_LABEL + " `rank` must not be 0.")
+        }
+        if (count !== undefined && count < 0) {
+            throw new Error(INVALID_COUNT_ERROR_LABEL + " `count` must not be negative.")
+        }
+        const indexes: number[] = []
+        let matches: number = 0
+        let checks: number = 0
+        for (const {index, value: element} of this.iterateListElements<T>(key, rank < 0)) {
+            if (maxLen && checks++ >= maxLen) break
+            if (!Bun.deepEquals(element, value)) continue
+            matches++
+            if (matches < Math.abs(rank)) continue
+            indexes.push(index)
+            if (count === undefined || indexes.length === count) break
+        }
+        if (count === undefined) return indexes[0]
+        return indexes
+    }
 
 
-    // ToDo: sPop()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#spop
+    /**
+     * Atomically returns and removes the first or last element of the list stored at `source`,
+     * and pushes the element at the first or last element of the list stored at `destination`.
+     *
+     * If `source` and `destination` are the same, the operation is equivalent
+     * to rotating the list.
+     *
+     * @category List (Array Object)
+     * @param {Key} source
+     *  {@link Key More informations about `key`.}
+     * @param {Key} destination
+     *  {@link Key More informations about `key`.}
+     * @param {"LEFT" | "RIGHT"} whereFrom
+     * @param {"LEFT" | "RIGHT"} whereTo
+     * @returns {T | undefined}
+     *  The moved element or `undefined` if the source list is empty or does not exist.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#lmove
+     */
+    lMove<T = any>(source: Key, destination: Key, whereFrom: "LEFT" | "RIGHT", whereTo: "LEFT" | "RIGHT"): T | undefined {
+        return this.transaction(() => {
+            if (!this.has(source)) return
+            this.prepareList(source)
+            const values = this.popListElements<T>(source, 1, whereFrom === "RIGHT")
+            if (!values.length) return
+            if (whereTo === "LEFT") {
+                this.lPush<T>(destination, values[0])
+            } else {
+                this.rPush<T>(destination, values[0])
+            }
+            return values[0]
+        })
+    }
 
 
-    // ToDo: sRandMember()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#srandmember
+    /**
+     * Atomically returns and removes the last element of the list stored at `source`,
+     * and pushes the element at the first element of the list stored at `destination`.
+     *
+     * Equivalent to `lMove(source, destination, "RIGHT", "LEFT")`.
+     *
+     * @category List (Array Object)
+     * @param {Key} source
+     *  {@link Key More informations about `key`.}
+     * @param {Key} destination
+     *  {@link Key More informations about `key`.}
+     * @returns {T | undefined}
+     *  The moved element or `undefined` if the source list is empty or does not exist.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#rpoplpush
+     */
+    rPopLPush<T = any>(source: Key, destination: Key): T | undefined {
+        return this.lMove<T>(source, destination, "RIGHT", "LEFT")
+    }
 
 
-    // ToDo: sRem()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#srem
+    // Waits until `pop()` returns an element or the timeout is reached.
+    // Elements pushed by any store of the same connection wake up the waiting pops immediately.
+    // Changes of other processes are detected by polling the data version of the database.
+    private async waitForListElement<T>(pop: () => T | undefined, timeoutMs?: number): Promise<T | undefined> {
+        const endTime = timeoutMs ? Date.now() + timeoutMs : undefined
+        let dataVersion = this.getDataVersion()
+        while (!this.isClosed) {
+            const result = pop()
+            if (result !== undefined) return result
+            const remainingMs = endTime === undefined ? undefined : endTime - Date.now()
+            if (remainingMs !== undefined && remainingMs <= 0) return
+            await new Promise<void>((resolve) => {
+                const wakeUp = () => {
+                    clearInterval(interval)
+                    clearTimeout(timeout)
+                    this.listPushListeners.delete(wakeUp)
+                    resolve()
+                }
+                const interval = setInterval(() => {
+                    const currentDataVersion = this.getDataVersion()
+                    if (currentDataVersion === dataVersion) return
+                    dataVersion = currentDataVersion
+                    wakeUp()
+                }, BLOCKING_POLL_INTERVAL_MS)
+                const timeout = remainingMs === undefined ? undefined : setTimeout(wakeUp, remainingMs)
+                this.listPushListeners.add(wakeUp)
+            })
+        }
+    }
 
 
-    // ToDo: sUnion()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#sunion
+    // `true` if this store or the shared connection was closed
+    private get isClosed(): boolean {
+        return this.closed || closedDatabases.has(this.db)
+    }
 
 
-    // ToDo: sUnionStore()
-    // Inspired by: https://docs.keydb.dev/docs/commands/#sunionstore
+    // Changes, if another connection commits changes to the database
+    private getDataVersion(): number {
+        return this.statements.dataVersion.get()!.data_version
+    }
 
 
     /**
-     * Adds a tag to an item.
+     * Blocking version of `lPop()`.
      *
-     * Raises an error if the item key does not exist.
+     * Removes and returns the first element of the first non-empty list of `keyOrKeys`.
+     * If all lists are empty, the returned promise is resolved as soon as an element
+     * is pushed to one of the lists. This also applies to elements that are pushed
+     * by other processes that use the same database file.
      *
-     * @category Tags (Labels)
-     * @param {Key} key
+     * @category List (Array Object)
+     * @param {Key | Key[]} keyOrKeys
      *  {@link Key More informations about `key`.}
-     * @param {Tag} tag
-     * @returns {boolean}
-     *  Returns `true` if the tag has been added.
-     *  Returns `false` if the tag already exists.
+     *  The lists are checked in the given order.
+     * @param {number} timeoutMs
+     *  Maximum waiting time in milliseconds.
+     *  If `undefined` or 0, it waits indefinitely.
+     * @returns {Promise<Item<T> | undefined>}
+     *  The key of the list and the removed element.
+     *  Resolves to `undefined` if the timeout has been reached.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#blpop
+     *
+     * @example
+     * ```TypeScript
+     * import { BunSqliteKeyValue } from "bun-sqlite-key-value"
+     *
+     * const store = new BunSqliteKeyValue("jobs.sqlite")
+     *
+     * while (true) {
+     *     const job = await store.bLPop("jobs")
+     *     console.log(job?.value)
+     * }
+     * ```
      */
-    addTag(key: Key, tag: Tag): boolean {
-        try {
-            return this.statements.addTag.run({item_key: key, tag}).changes === 1
-        } catch (error: any) {
-            if (error.toString().includes("FOREIGN KEY constraint failed")) {
-                throw new Error(ITEM_NOT_EXISTS_ERROR_LABEL + ` Key "${key.substring(-80)}" not found.`)
-            } else {
-                throw error
+    async bLPop<T = any>(keyOrKeys: Key | Key[], timeoutMs?: number): Promise<Item<T> | undefined> {
+        const keys = typeof keyOrKeys === "string" ? [keyOrKeys] : keyOrKeys
+        return this.waitForListElement<Item<T>>(() => {
+            for (const key of keys) {
+                const value = this.lPop<T>(key) as T | undefined
+                if (value !== undefined) return {key, value}
             }
-        }
+        }, timeoutMs)
     }
 
 
+    // Alias for bLPop()
+    blPop = this.bLPop
+
+
     /**
-     * Deletes a tag of an item.
+     * Blocking version of `rPop()`.
      *
-     * @category Tags (Labels)
-     * @param {Key} key
+     * Removes and returns the last element of the first non-empty list of `keyOrKeys`.
+     * If all lists are empty, the returned promise is resolved as soon as an element
+     * is pushed to one of the lists. This also applies to elements that are pushed
+     * by other processes that use the same database file.
+     *
+     * @category List (Array Object)
+     * @param {Key | Key[]} keyOrKeys
      *  {@link Key More informations about `key`.}
-     * @param {Tag} tag
-     * @returns {boolean}
-     *  Returns `true` if the tag has been deleted.
-     *  Returns `false` if the tag or the item does not exist.
+     *  The lists are checked in the given order.
+     * @param {number} timeoutMs
+     *  Maximum waiting time in milliseconds.
+     *  If `undefined` or 0, it waits indefinitely.
+     * @returns {Promise<Item<T> | undefined>}
+     *  The key of the list and the removed element.
+     *  Resolves to `undefined` if the timeout has been reached.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#brpop
      */
-    deleteTag(key: Key, tag: Tag): boolean {
-        return this.statements.deleteTag.run({key, tag}).changes === 1
+    async bRPop<T = any>(keyOrKeys: Key | Key[], timeoutMs?: number): Promise<Item<T> | undefined> {
+        const keys = typeof keyOrKeys === "string" ? [keyOrKeys] : keyOrKeys
+        return this.waitForListElement<Item<T>>(() => {
+            for (const key of keys) {
+                const value = this.rPop<T>(key) as T | undefined
+                if (value !== undefined) return {key, value}
+            }
+        }, timeoutMs)
     }
 
 
+    // Alias for bRPop()
+    brPop = this.bRPop
+
+
     /**
-     * Deletes multiple tags or all tags of the item.
+     * Blocking version of `lMove()`.
      *
-     * @category Tags (Labels)
-     * @param {Key} key
+     * If the list stored at `source` is empty, the returned promise is resolved
+     * as soon as an element is pushed to the list and moved to `destination`.
+     * This also applies to elements that are pushed by other processes
+     * that use the same database file.
+     *
+     * @category List (Array Object)
+     * @param {Key} source
      *  {@link Key More informations about `key`.}
-     * @param {Tag[] | undefined} tags
-     *  Deletes all tags within the array.
-     *  If `undefined`, all tags of the item are deleted.
+     * @param {Key} destination
+     *  {@link Key More informations about `key`.}
+     * @param {"LEFT" | "RIGHT"} whereFrom
+     * @param {"LEFT" | "RIGHT"} whereTo
+     * @param {number} timeoutMs
+     *  Maximum waiting time in milliseconds.
+     *  If `undefined` or 0, it waits indefinitely.
+     * @returns {Promise<T | undefined>}
+     *  The moved element.
+     *  Resolves to `undefined` if the timeout has been reached.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#blmove
      */
-    deleteTags(key: Key, tags?: Tag[]) {
-        if (tags) {
-            this.db.transaction(() => {
-                tags.forEach((tag) => this.deleteTag(key, tag))
-            })()
-        } else {
-            this.statements.deleteAllTags.run({key})
-        }
+    async bLMove<T = any>(
+        source: Key, destination: Key,
+        whereFrom: "LEFT" | "RIGHT", whereTo: "LEFT" | "RIGHT",
+        timeoutMs?: number
+    ): Promise<T | undefined> {
+        return this.waitForListElement<T>(() => {
+            return this.lMove<T>(source, destination, whereFrom, whereTo)
+        }, timeoutMs)
     }
 
 
     /**
-     * Deletes tagged items.
+     * Reads the set stored at `key`.
      *
-     * @category Tags (Labels)
-     * @param {Tag} tag
+     * Raises an error if the value stored at `key` is not a set.
+     * Sets are stored as serialized Set objects, which the `string` and `raw` serializers can't do.
      */
-    deleteTaggedItems(tag: Tag) {
-        this.statements.deleteTaggedItems.run({tag})
+    private getSetObject<T = any>(key: Key): Set<T> | undefined {
+        if (this.serializer.name === "string" || this.serializer.name === "raw") {
+            throw new Error(
+                SET_NOT_SUPPORTED_ERROR_LABEL + ` Sets can't be stored with the "${this.serializer.name}" serializer.`
+            )
+        }
+        const set = this.get<Set<T>>(key)
+        if (set === undefined) return
+        if (!(set instanceof Set)) {
+            throw new Error(NO_SET_ERROR_LABEL + ` Value at "${key.substring(-80)}" is not a set.`)
+        }
+        return set
     }
 
 
     /**
-     * Returns tagged keys.
+     * Adds the specified members to the set stored at `key`.
      *
-     * @category Tags (Labels)
-     * @param {Tag} tag
-     * @returns {Key[] | undefined}
+     * Specified members that are already a member of this set are ignored.
+     * If `key` does not exist, a new set is created before adding the specified members.
+     * An error is returned when the value stored at `key` is not a set.
+     *
+     * Use primitive values (strings, numbers) as members.
+     * Objects are compared by reference and are therefore never equal after reading.
+     *
+     * @category Set (Set Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {T} members
+     *  {@link Value More informations about `value`.}
+     * @returns {number}
+     *  The number of members that were added to the set,
+     *  not including all the members already present in the set.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#sadd
      */
-    getTaggedKeys(tag: Tag): Key[] | undefined {
-        const records = this.statements.getTaggedKeys.all({tag})
-        if (!records?.length) return
-        return records.map(record => record.key)
+    sAdd<T = any>(key: Key, ...members: T[]): number {
+        return this.transaction(() => {
+            if (!members.length) return 0
+            const existingSet = this.getSetObject<T>(key)
+            const set = existingSet ?? new Set<T>()
+            const oldSize = set.size
+            members.forEach((member) => set.add(member))
+            if (set.size > oldSize) this.storeSetObject(key, set, existingSet !== undefined)
+            return set.size - oldSize
+        })
     }
 
 
     /**
-     * Returns tagged values.
+     * Removes the specified members from the set stored at `key`.
      *
-     * @category Tags (Labels)
-     * @param {Tag} tag
-     * @returns {(T | undefined)[] | undefined}
+     * Specified members that are not a member of this set are ignored.
+     * If `key` does not exist, it is treated as an empty set and this command returns 0.
+     * If the set becomes empty, `key` is deleted.
+     * An error is returned when the value stored at `key` is not a set.
+     *
+     * @category Set (Set Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {T} members
+     * @returns {number}
+     *  The number of members that were removed from the set,
+     *  not including non existing members.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#srem
      */
-    getTaggedValues<T = any>(tag: Tag): (T | undefined)[] | undefined {
-        return this.db.transaction(() => {
-            const taggedKeys = this.getTaggedKeys(tag)
-            if (!taggedKeys) return
-            return this.getValues<T>(taggedKeys)
-        })()
+    sRem<T = any>(key: Key, ...members: T[]): number {
+        return this.transaction(() => {
+            const set = this.getSetObject<T>(key)
+            if (set === undefined) return 0
+            let count: number = 0
+            members.forEach((member) => {
+                if (set.delete(member)) count++
+            })
+            if (count) this.storeSetObject(key, set, true)
+            return count
+        })
     }
 
 
     /**
-     * Returns tagged items.
+     * Returns the number of members of the set stored at `key`.
      *
-     * @category Tags (Labels)
-     * @param {Tag} tag
+     * If `key` does not exist, 0 is returned.
+     * An error is returned when the value stored at `key` is not a set.
+     *
+     * @category Set (Set Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @returns {number}
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#scard
+     */
+    sCard(key: Key): number {
+        return this.getSetObject(key)?.size ?? 0
+    }
+
+
+    /**
+     * Returns if `member` is a member of the set stored at `key`.
+     *
+     * An error is returned when the value stored at `key` is not a set.
+     *
+     * @category Set (Set Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {T} member
+     * @returns {boolean}
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#sismember
+     */
+    sIsMember<T = any>(key: Key, member: T): boolean {
+        return this.getSetObject<T>(key)?.has(member) ?? false
+    }
+
+
+    /**
+     * Returns all the members of the set stored at `key`.
+     *
+     * An error is returned when the value stored at `key` is not a set.
+     *
+     * @category Set (Set Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @returns {Set<T> | undefined}
+     *  Returns `undefined` if `key` does not exist.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#smembers
+     */
+    sMembers<T = any>(key: Key): Set<T> | undefined {
+        return this.getSetObject<T>(key)
+    }
+
+
+    /**
+     * Moves `member` from the set at `source` to the set at `destination`.
+     *
+     * If the source set does not exist or does not contain the specified element,
+     * no operation is performed and `false` is returned.
+     * If the source set becomes empty, `source` is deleted.
+     * An error is returned if `source` or `destination` does not hold a set value.
+     *
+     * @category Set (Set Object)
+     * @param {Key} source
+     *  {@link Key More informations about `key`.}
+     * @param {Key} destination
+     *  {@link Key More informations about `key`.}
+     * @param {T} member
+     * @returns {boolean}
+     *  `true` if the element was moved.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#smove
+     */
+    sMove<T = any>(source: Key, destination: Key, member: T): boolean {
+        return this.transaction(() => {
+            const sourceSet = this.getSetObject<T>(source)
+            const existingDestinationSet = this.getSetObject<T>(destination)
+            const destinationSet = existingDestinationSet ?? new Set<T>()
+            if (!sourceSet?.delete(member)) return false
+            this.storeSetObject(source, sourceSet, true)
+            destinationSet.add(member)
+            this.storeSetObject(destination, destinationSet, existingDestinationSet !== undefined)
+            return true
+        })
+    }
+
+
+    /**
+     * Removes and returns one or more random members from the set stored at `key`.
+     * If the set becomes empty, `key` is deleted.
+     *
+     * @category Set (Set Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {number} count
+     * @returns {T | T[] | undefined}
+     *  If `count` is `undefined`, it returns one random member of the set.
+     *  If `count` is a positive number, it returns up to `count` random members of the set.
+     *  Returns `undefined` if `key` was not found or the set is empty.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#spop
+     */
+    sPop<T = any>(key: Key, count?: number): T | T[] | undefined {
+        return this.transaction(() => {
+            if (count !== undefined && count <= 0) {
+                throw new Error(INVALID_COUNT_ERROR_LABEL + " `count` must be greater then 0.")
+            }
+            const set = this.getSetObject<T>(key)
+            if (!set?.size) return
+            const members = getRandomMembers<T>(set, count ?? 1)
+            members.forEach((member) => set.delete(member))
+            this.storeSetObject(key, set, true)
+            return count === undefined ? members[0] : members
+        })
+    }
+
+
+    /**
+     * Returns one or more random members from the set stored at `key`
+     * without removing them.
+     *
+     * @category Set (Set Object)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {number} count
+     * @returns {T | T[] | undefined}
+     *  If `count` is `undefined`, it returns one random member of the set.
+     *  If `count` is a positive number, it returns up to `count` distinct random members of the set.
+     *  Returns `undefined` if `key` was not found or the set is empty.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#srandmember
+     */
+    sRandMember<T = any>(key: Key, count?: number): T | T[] | undefined {
+        if (count !== undefined && count <= 0) {
+            throw new Error(INVALID_COUNT_ERROR_LABEL + " `count` must be greater then 0.")
+        }
+        const set = this.getSetObject<T>(key)
+        if (!set?.size) return
+        const members = getRandomMembers<T>(set, count ?? 1)
+        return count === undefined ? members[0] : members
+    }
+
+
+    /**
+     * Returns the members of the set resulting from the intersection of all the given sets.
+     *
+     * Keys that do not exist are considered to be empty sets.
+     * An error is returned if one of the keys does not hold a set value.
+     *
+     * @category Set (Set Object)
+     * @param {Key[]} keys
+     *  {@link Key More informations about `key`.}
+     * @returns {Set<T>}
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#sinter
+     */
+    sInter<T = any>(...keys: Key[]): Set<T> {
+        return this.runTransaction(() => {
+            const sets = keys.map((key) => this.getSetObject<T>(key) ?? new Set<T>())
+            if (!sets.length) return new Set<T>()
+            const [firstSet, ...otherSets] = sets
+            return new Set<T>([...firstSet].filter((member) => {
+                return otherSets.every((set) => set.has(member))
+            }))
+        })
+    }
+
+
+    /**
+     * Stores the intersection of all the given sets in `destination`.
+     *
+     * If `destination` already exists, it is overwritten.
+     * If the resulting set is empty, `destination` is deleted.
+     *
+     * @category Set (Set Object)
+     * @param {Key} destination
+     *  {@link Key More informations about `key`.}
+     * @param {Key[]} keys
+     *  {@link Key More informations about `key`.}
+     * @returns {number}
+     *  The number of members in the resulting set.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#sinterstore
+     */
+    sInterStore(destination: Key, ...keys: Key[]): number {
+        return this.transaction(() => {
+            return this.storeSetObject(destination, this.sInter(...keys), this.hasSetObject(destination))
+        })
+    }
+
+
+    /**
+     * Returns the members of the set resulting from the union of all the given sets.
+     *
+     * Keys that do not exist are considered to be empty sets.
+     * An error is returned if one of the keys does not hold a set value.
+     *
+     * @category Set (Set Object)
+     * @param {Key[]} keys
+     *  {@link Key More informations about `key`.}
+     * @returns {Set<T>}
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#sunion
+     */
+    sUnion<T = any>(...keys: Key[]): Set<T> {
+        return this.runTransaction(() => {
+            const result = new Set<T>()
+            keys.forEach((key) => {
+                this.getSetObject<T>(key)?.forEach((member) => result.add(member))
+            })
+            return result
+        })
+    }
+
+
+    /**
+     * Stores the union of all the given sets in `destination`.
+     *
+     * If `destination` already exists, it is overwritten.
+     * If the resulting set is empty, `destination` is deleted.
+     *
+     * @category Set (Set Object)
+     * @param {Key} destination
+     *  {@link Key More informations about `key`.}
+     * @param {Key[]} keys
+     *  {@link Key More informations about `key`.}
+     * @returns {number}
+     *  The number of members in the resulting set.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#sunionstore
+     */
+    sUnionStore(destination: Key, ...keys: Key[]): number {
+        return this.transaction(() => {
+            return this.storeSetObject(destination, this.sUnion(...keys), this.hasSetObject(destination))
+        })
+    }
+
+
+    /**
+     * Returns the members of the set resulting from the difference
+     * between the first set and all the successive sets.
+     *
+     * Keys that do not exist are considered to be empty sets.
+     * An error is returned if one of the keys does not hold a set value.
+     *
+     * @category Set (Set Object)
+     * @param {Key[]} keys
+     *  {@link Key More informations about `key`.}
+     * @returns {Set<T>}
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#sdiff
+     */
+    sDiff<T = any>(...keys: Key[]): Set<T> {
+        return this.runTransaction(() => {
+            const sets = keys.map((key) => this.getSetObject<T>(key) ?? new Set<T>())
+            if (!sets.length) return new Set<T>()
+            const [firstSet, ...otherSets] = sets
+            return new Set<T>([...firstSet].filter((member) => {
+                return !otherSets.some((set) => set.has(member))
+            }))
+        })
+    }
+
+
+    /**
+     * Stores the difference between the first set and all the successive sets in `destination`.
+     *
+     * If `destination` already exists, it is overwritten.
+     * If the resulting set is empty, `destination` is deleted.
+     *
+     * @category Set (Set Object)
+     * @param {Key} destination
+     *  {@link Key More informations about `key`.}
+     * @param {Key[]} keys
+     *  {@link Key More informations about `key`.}
+     * @returns {number}
+     *  The number of members in the resulting set.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#sdiffstore
+     */
+    sDiffStore(destination: Key, ...keys: Key[]): number {
+        return this.transaction(() => {
+            return this.storeSetObject(destination, this.sDiff(...keys), this.hasSetObject(destination))
+        })
+    }
+
+
+    // Writes the set to `destination` (result of a set operation or changed set).
+    // Existing sets (`exists`) are updated, so that their tags and expiration time are kept.
+    // Empty sets delete `destination`.
+    private storeSetObject<T = any>(destination: Key, set: Set<T>, exists: boolean): number {
+        if (!set.size) {
+            this.delete(destination)
+        } else if (exists) {
+            this.updateValue<Set<T>>(destination, set)
+        } else {
+            this.set<Set<T>>(destination, set)
+        }
+        return set.size
+    }
+
+
+    // Returns `true` if the value at `key` is a set
+    private hasSetObject(key: Key): boolean {
+        const record = this.getValidRecord(key)
+        return !!record && !record.type && this.getRecordValue(key, record) instanceof Set
+    }
+
+
+    // Reads the database row of the sorted set stored at `key`.
+    // Raises an error if the value at `key` is not a sorted set.
+    private getSortedSetRecord(key: Key): Omit<Record, "key"> | undefined {
+        const record = this.getValidRecord(key)
+        if (record && record.type !== "zset") {
+            throw new Error(NO_SORTED_SET_ERROR_LABEL + ` Value at "${key.substring(-80)}" is not a sorted set.`)
+        }
+        return record
+    }
+
+
+    // Reads the database row of the sorted set stored at `key` and records the read access.
+    // Raises an error if the value at `key` is not a sorted set.
+    private readSortedSetRecord(key: Key): Omit<Record, "key"> | undefined {
+        const record = this.getSortedSetRecord(key)
+        if (record) this.recordAccess([{...record, key}])
+        return record
+    }
+
+
+    // Prepares the item at `key` to store its members in the sorted set members table.
+    // Raises an error if the value at `key` is not a sorted set.
+    private prepareSortedSet(key: Key) {
+        if (this.getSortedSetRecord(key)) return
+        this.statements.setTypedItem.run({key, expires: null, type: "zset"})
+    }
+
+
+    // Removes `count` members with the lowest (`highest` is `false`)
+    // or highest (`highest` is `true`) scores.
+    private popSortedSetMembers(key: Key, count: number | undefined, highest: boolean): ScoredMember | ScoredMember[] | undefined {
+        if (!this.getSortedSetRecord(key)) return
+        if (count !== undefined && count <= 0) {
+            throw new Error(INVALID_COUNT_ERROR_LABEL + " `count` must be greater then 0.")
+        }
+        const statement = highest ? this.statements.getSortedSetRevRange : this.statements.getSortedSetRange
+        const members = statement.all({key, limit: count ?? 1, offset: 0})
+        members.forEach(({member}) => this.statements.deleteSortedSetMember.run({key, member}))
+        if (members.length) {
+            this.statements.touchItem.run({key})
+            this.itemWritten(key)
+        }
+        if (count === undefined) return members[0]
+        if (members.length) return members
+    }
+
+
+    // Returns the members between the indexes `start` and `stop` (both inclusive).
+    private getSortedSetRange(key: Key, start: number, stop: number, reverse: boolean): ScoredMember[] {
+        if (!this.readSortedSetRecord(key)) return []
+        const length = this.statements.countSortedSetMembers.get({key})!.count
+        if (start < 0) start = Math.max(length + start, 0)
+        if (stop < 0) stop = length + stop
+        stop = Math.min(stop, length - 1)
+        if (start > stop) return []
+        const statement = reverse ? this.statements.getSortedSetRevRange : this.statements.getSortedSetRange
+        return statement.all({key, limit: stop - start + 1, offset: start})
+    }
+
+
+    /**
+     * Adds members with their scores to the sorted set stored at `key`.
+     *
+     * If a specified member is already a member of the sorted set,
+     * the score is updated.
+     * If `key` does not exist, a new sorted set is created.
+     * An error is returned when the value stored at `key` is not a sorted set.
+     * An error is returned when a score is not a number or `NaN` (`Infinity` and `-Infinity` are allowed).
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {{[member: string]: number}} members
+     *  Object with the members as property names and the scores as values.
+     * @param {TtlMs} ttlMs
+     * @returns {number}
+     *  The number of new members, not including members whose score was updated.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zadd
+     *
+     * @example
+     * ```TypeScript
+     * import { BunSqliteKeyValue } from "bun-sqlite-key-value"
+     *
+     * const store = new BunSqliteKeyValue()
+     *
+     * store.zAdd("leaderboard", {"player-1": 100, "player-2": 250})
+     * store.zRevRange("leaderboard", 0, 0) // --> [{member: "player-2", score: 250}]
+     * ```
+     */
+    zAdd(key: Key, members: {[member: string]: number}, ttlMs?: TtlMs): number {
+        Object.values(members).forEach(checkScore)
+        return this.transaction(() => {
+            this.prepareSortedSet(key)
+            let count: number = 0
+            Object.entries(members).forEach(([member, score]) => {
+                if (!this.statements.getSortedSetScore.get({key, member})) count++
+                this.statements.setSortedSetMember.run({key, member, score})
+            })
+            this.statements.setExpires.run({key, ...this.getExpiration(ttlMs)})
+            this.itemWritten(key)
+            return count
+        })
+    }
+
+
+    /**
+     * Removes the specified members from the sorted set stored at `key`.
+     *
+     * Non existing members are ignored.
+     * An error is returned when the value stored at `key` is not a sorted set.
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {string[]} members
+     * @returns {number}
+     *  The number of members removed from the sorted set.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zrem
+     */
+    zRem(key: Key, ...members: string[]): number {
+        return this.transaction(() => {
+            if (!this.getSortedSetRecord(key)) return 0
+            let count: number = 0
+            members.forEach((member) => {
+                count += this.statements.deleteSortedSetMember.run({key, member}).changes
+            })
+            if (count) {
+                this.statements.touchItem.run({key})
+                this.itemWritten(key)
+            }
+            return count
+        })
+    }
+
+
+    /**
+     * Returns the score of `member` in the sorted set stored at `key`.
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {string} member
+     * @returns {number | undefined}
+     *  Returns `undefined` if `member` or `key` does not exist.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zscore
+     */
+    zScore(key: Key, member: string): number | undefined {
+        if (!this.readSortedSetRecord(key)) return
+        return this.statements.getSortedSetScore.get({key, member})?.score
+    }
+
+
+    /**
+     * Increments the score of `member` in the sorted set stored at `key` by `incrBy`.
+     *
+     * If `member` does not exist, it is added with `incrBy` as its score.
+     * If `key` does not exist, a new sorted set is created.
+     * An error is returned when `incrBy` or the new score is not a number or `NaN`
+     * (e.g. `Infinity` incremented by `-Infinity`).
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {string} member
+     * @param {number} incrBy
+     * @param {TtlMs} ttlMs
+     * @returns {number}
+     *  The new score of `member`.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zincrby
+     */
+    zIncrBy(key: Key, member: string, incrBy: number = 1, ttlMs?: TtlMs): number {
+        checkScore(incrBy)
+        return this.transaction(() => {
+            this.prepareSortedSet(key)
+            const score = (this.statements.getSortedSetScore.get({key, member})?.score ?? 0) + incrBy
+            checkScore(score)
+            this.statements.setSortedSetMember.run({key, member, score})
+            this.statements.setExpires.run({key, ...this.getExpiration(ttlMs)})
+            this.itemWritten(key)
+            return score
+        })
+    }
+
+
+    /**
+     * Returns the rank of `member` in the sorted set stored at `key`,
+     * with the scores ordered from low to high.
+     *
+     * The rank is 0-based, which means that the member with the lowest score has rank 0.
+     * Members with the same score are ordered lexicographically.
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {string} member
+     * @returns {number | undefined}
+     *  Returns `undefined` if `member` or `key` does not exist.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zrank
+     */
+    zRank(key: Key, member: string): number | undefined {
+        const score = this.zScore(key, member)
+        if (score === undefined) return
+        return this.statements.getSortedSetRank.get({key, member, score})!.count
+    }
+
+
+    /**
+     * Returns the rank of `member` in the sorted set stored at `key`,
+     * with the scores ordered from high to low.
+     *
+     * The rank is 0-based, which means that the member with the highest score has rank 0.
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {string} member
+     * @returns {number | undefined}
+     *  Returns `undefined` if `member` or `key` does not exist.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zrevrank
+     */
+    zRevRank(key: Key, member: string): number | undefined {
+        const score = this.zScore(key, member)
+        if (score === undefined) return
+        return this.statements.getSortedSetRevRank.get({key, member, score})!.count
+    }
+
+
+    /**
+     * Returns the members between the indexes `start` and `stop` (both inclusive),
+     * with the scores ordered from low to high.
+     *
+     * Negative indices can be used to designate members starting at the member with the highest score.
+     * Here, -1 means the last member, -2 means the penultimate and so forth.
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {number} start
+     * @param {number} stop
+     * @returns {ScoredMember[]}
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zrange
+     */
+    zRange(key: Key, start: number = 0, stop: number = -1): ScoredMember[] {
+        return this.getSortedSetRange(key, start, stop, false)
+    }
+
+
+    /**
+     * Returns the members between the indexes `start` and `stop` (both inclusive),
+     * with the scores ordered from high to low.
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {number} start
+     * @param {number} stop
+     * @returns {ScoredMember[]}
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zrevrange
+     */
+    zRevRange(key: Key, start: number = 0, stop: number = -1): ScoredMember[] {
+        return this.getSortedSetRange(key, start, stop, true)
+    }
+
+
+    /**
+     * Returns the members with a score between `min` and `max` (both inclusive),
+     * with the scores ordered from low to high.
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {number} min
+     *  Use `-Infinity` for no lower limit.
+     * @param {number} max
+     *  Use `Infinity` for no upper limit.
+     * @param {{offset?: number, count?: number}} limit
+     *  Skips `offset` members and returns at most `count` members.
+     * @returns {ScoredMember[]}
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zrangebyscore
+     */
+    zRangeByScore(key: Key, min: number, max: number, limit?: {offset?: number, count?: number}): ScoredMember[] {
+        if (!this.readSortedSetRecord(key)) return []
+        return this.statements.getSortedSetRangeByScore.all({
+            key, min, max,
+            offset: limit?.offset ?? 0,
+            limit: limit?.count ?? -1
+        })
+    }
+
+
+    /**
+     * Returns the number of members of the sorted set stored at `key`.
+     *
+     * If `key` does not exist, 0 is returned.
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @returns {number}
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zcard
+     */
+    zCard(key: Key): number {
+        if (!this.readSortedSetRecord(key)) return 0
+        return this.statements.countSortedSetMembers.get({key})!.count
+    }
+
+
+    /**
+     * Removes and returns the members with the lowest scores.
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {number} count
+     * @returns {ScoredMember | ScoredMember[] | undefined}
+     *  If `count` is `undefined`, it returns the member with the lowest score.
+     *  If `count` is a positive number, it returns up to `count` members.
+     *  Returns `undefined` if `key` was not found or the sorted set is empty.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zpopmin
+     */
+    zPopMin(key: Key, count?: number): ScoredMember | ScoredMember[] | undefined {
+        return this.transaction(() => {
+            return this.popSortedSetMembers(key, count, false)
+        })
+    }
+
+
+    /**
+     * Removes and returns the members with the highest scores.
+     *
+     * @category Sorted Set
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {number} count
+     * @returns {ScoredMember | ScoredMember[] | undefined}
+     *  If `count` is `undefined`, it returns the member with the highest score.
+     *  If `count` is a positive number, it returns up to `count` members.
+     *  Returns `undefined` if `key` was not found or the sorted set is empty.
+     *
+     * @remarks
+     * Inspired by: https://docs.keydb.dev/docs/commands/#zpopmax
+     */
+    zPopMax(key: Key, count?: number): ScoredMember | ScoredMember[] | undefined {
+        return this.transaction(() => {
+            return this.popSortedSetMembers(key, count, true)
+        })
+    }
+
+
+    /**
+     * Adds a tag to an item.
+     *
+     * Raises an error if the item key does not exist.
+     *
+     * @category Tags (Labels)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {Tag} tag
+     * @returns {boolean}
+     *  Returns `true` if the tag has been added.
+     *  Returns `false` if the tag already exists.
+     */
+    addTag(key: Key, tag: Tag): boolean {
+        try {
+            if (!this.statements.addTag.run({item_key: key, tag}).changes) return false
+            this.emitKeyEvent({type: "tag", key, tag, tagAction: "add"})
+            return true
+        } catch (error: any) {
+            if (error.toString().includes("FOREIGN KEY constraint failed")) {
+                throw new Error(ITEM_NOT_EXISTS_ERROR_LABEL + ` Key "${key.substring(-80)}" not found.`)
+            } else {
+                throw error
+            }
+        }
+    }
+
+
+    /**
+     * Deletes a tag of an item.
+     *
+     * @category Tags (Labels)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {Tag} tag
+     * @returns {boolean}
+     *  Returns `true` if the tag has been deleted.
+     *  Returns `false` if the tag or the item does not exist.
+     */
+    deleteTag(key: Key, tag: Tag): boolean {
+        if (!this.statements.deleteTag.run({key, tag}).changes) return false
+        this.emitKeyEvent({type: "tag", key, tag, tagAction: "delete"})
+        return true
+    }
+
+
+    /**
+     * Deletes multiple tags or all tags of the item.
+     *
+     * @category Tags (Labels)
+     * @param {Key} key
+     *  {@link Key More informations about `key`.}
+     * @param {Tag[] | undefined} tags
+     *  Deletes all tags within the array.
+     *  If `undefined`, all tags of the item are deleted.
+     */
+    deleteTags(key: Key, tags?: Tag[]) {
+        if (tags) {
+            this.runTransaction(() => {
+                tags.forEach((tag) => this.deleteTag(key, tag))
+            })
+        } else {
+            this.statements.deleteAllTags.all({key}).forEach(({tag}) => {
+                this.emitKeyEvent({type: "tag", key, tag, tagAction: "delete"})
+            })
+        }
+    }
+
+
+    /**
+     * Deletes tagged items.
+     *
+     * @category Tags (Labels)
+     * @param {Tag} tag
+     */
+    deleteTaggedItems(tag: Tag) {
+        this.runDeleteStatement(this.statements.deleteTaggedItems, {tag}, "delete")
+    }
+
+
+    /**
+     * Returns tagged keys.
+     *
+     * @category Tags (Labels)
+     * @param {Tag} tag
+     * @returns {Key[] | undefined}
+     */
+    getTaggedKeys(tag: Tag): Key[] | undefined {
+        const records = this.statements.getTaggedKeys.all({tag})
+        if (!records?.length) return
+        return records.map(record => record.key)
+    }
+
+
+    /**
+     * Returns tagged values.
+     *
+     * @category Tags (Labels)
+     * @param {Tag} tag
+     * @returns {(T | undefined)[] | undefined}
+     */
+    getTaggedValues<T = any>(tag: Tag): (T | undefined)[] | undefined {
+        return this.runTransaction(() => {
+            const taggedKeys = this.getTaggedKeys(tag)
+            if (!taggedKeys) return
+            return this.getValues<T>(taggedKeys)
+        })
+    }
+
+
+    /**
+     * Returns tagged items.
+     *
+     * @category Tags (Labels)
+     * @param {Tag} tag
      * @returns {Item<T>[] | undefined}
      */
     getTaggedItems<T>(tag: Tag): Item<T>[] | undefined {
-        return this.db.transaction(() => {
+        return this.runTransaction(() => {
             const taggedKeys = this.getTaggedKeys(tag)
             if (!taggedKeys) return
             return this.getItems<T>(taggedKeys)
-        })()
+        })
+    }
+
+
+    // Loads the recorded indexes with field paths.
+    // Indexes with extractor functions are unregistered until they are created again.
+    private loadIndexes() {
+        this.statements.getIndexDefinitions.all().forEach(({name, value}) => {
+            const {fieldPath} = JSON.parse(value) as IndexDefinition
+            name = name.slice(INDEX_SETTING_PREFIX.length)
+            if (fieldPath === null) {
+                this.unregisteredIndexes.add(name)
+            } else {
+                this.indexes.set(name, (value) => getFieldPathValue(value, fieldPath))
+            }
+        })
+    }
+
+
+    // Marks the unregistered indexes as outdated, because the written item has no index entries.
+    // Indexes which are already marked are not written again.
+    private markUnregisteredIndexesStale() {
+        this.unregisteredIndexes.forEach((name) => {
+            this.statements.markIndexStale.run({name: INDEX_SETTING_PREFIX + name})
+        })
+    }
+
+
+    // Raises an error if the recorded index can't be read
+    private checkIndex(name: string) {
+        const value = this.statements.getSetting.get({name: INDEX_SETTING_PREFIX + name})?.value
+        if (value === undefined) return
+        if (!this.indexes.has(name)) {
+            throw new Error(
+                INDEX_ERROR_LABEL + ` The index "${name}" has an extractor function. Use \`createIndex()\` to register it.`
+            )
+        }
+        if ((JSON.parse(value) as IndexDefinition).stale) {
+            throw new Error(
+                INDEX_ERROR_LABEL + ` The index "${name}" is outdated. Use \`createIndex()\` to rebuild it.`
+            )
+        }
+    }
+
+
+    // Writes the index entries of the item.
+    // Only the given indexes are written (default: all indexes).
+    private addIndexEntries(key: Key, value: any, names: Iterable<string> = this.indexes.keys()) {
+        for (const name of names) {
+            const extracted = this.indexes.get(name)!(value, key)
+            if (extracted === undefined || extracted === null) continue
+            const indexValues = Array.isArray(extracted) ? extracted : [extracted]
+            for (const indexValue of indexValues) {
+                // Objects, `null` and `undefined` are not indexed
+                if (!["string", "number", "boolean"].includes(typeof indexValue)) continue
+                this.statements.addIndexEntry.run({name, value: toIndexValue(indexValue), key})
+            }
+        }
+    }
+
+
+    /**
+     * Creates (or replaces) a secondary index on the values.
+     * The index entries of all existing items are written immediately.
+     * Afterwards, `set()` and `setItems()` keep the index up to date.
+     * Deleted items are removed from the index by the database (foreign key cascade).
+     *
+     * Only values written with `set()` are indexed, not hashes, lists, sets and sorted sets.
+     *
+     * The index definition is recorded in the database. Indexes with field paths
+     * are loaded again when the database is opened. Indexes with extractor functions
+     * must be created again after opening the database, otherwise `findByIndex()` raises an error.
+     * If an instance which doesn't know the extractor function writes items,
+     * the index is outdated and must be created again.
+     * Instances (or processes) which are already open only know the indexes created before.
+     *
+     * Encrypted databases can't be indexed, because the index values are stored unencrypted.
+     *
+     * @category Secondary Indexes
+     * @param {string} name
+     *  Name of the index
+     * @param {IndexExtractor | string} extractorOrFieldPath
+     *  Function which returns the index value (or an array of index values) of an item
+     *  or the path of an object property (e.g. `"status"` or `"address.city"`).
+     *
+     * @example
+     * store.createIndex("status", "status")
+     * store.createIndex("tags", (user) => user.tags)
+     * store.set("user:1", {name: "Alice", status: "active", tags: ["admin"]})
+     * store.findByIndex("status", "active") // --> [{key: "user:1", value: {...}}]
+     */
+    createIndex<T = any>(name: string, extractorOrFieldPath: IndexExtractor<T> | string) {
+        if (this.encryptionKey) {
+            throw new Error(INDEX_ERROR_LABEL + " Encrypted databases can't be indexed.")
+        }
+        const fieldPath = typeof extractorOrFieldPath === "string" ? extractorOrFieldPath : null
+        const extractor: IndexExtractor<T> = fieldPath !== null
+            ? (value) => getFieldPathValue(value, fieldPath)
+            : extractorOrFieldPath as IndexExtractor<T>
+        this.transaction(() => {
+            this.indexes.set(name, extractor)
+            this.unregisteredIndexes.delete(name)
+            const definition: IndexDefinition = {fieldPath}
+            this.statements.setSetting.run({name: INDEX_SETTING_PREFIX + name, value: JSON.stringify(definition)})
+            this.statements.deleteIndexEntries.run({name})
+            let cursor: string | undefined
+            do {
+                const result = this.scanRecords(cursor, undefined, true, ITERATE_COUNT)
+                cursor = result.cursor
+                for (const record of result.records) {
+                    if (record.type) continue
+                    this.addIndexEntries(record.key, this.decodeValue(record, ["value", record.key]), [name])
+                }
+            } while (cursor !== undefined)
+        })
+    }
+
+
+    /**
+     * Deletes the secondary index and its entries.
+     *
+     * @category Secondary Indexes
+     * @param {string} name
+     *  Name of the index
+     */
+    dropIndex(name: string) {
+        this.runTransaction(() => {
+            this.indexes.delete(name)
+            this.unregisteredIndexes.delete(name)
+            this.statements.deleteSetting.run({name: INDEX_SETTING_PREFIX + name})
+            this.statements.deleteIndexEntries.run({name})
+        })
+    }
+
+
+    /**
+     * Returns the items whose index value equals `valueOrRange`
+     * or lies within the range. The items are ordered by index value and key.
+     *
+     * Numbers (and booleans) and strings are never equal and never in the same range.
+     *
+     * Raises an error if the index was created with an extractor function which
+     * this instance doesn't know, or if the index is outdated (see `createIndex()`).
+     *
+     * @category Secondary Indexes
+     * @param {string} name
+     *  Name of the index
+     * @param {IndexValue | IndexRange} valueOrRange
+     *  Index value or range (`{gt, gte, lt, lte}`)
+     * @returns {Item<T>[] | undefined}
+     *  Returns `undefined` if no item was found.
+     *
+     * @example
+     * store.findByIndex("status", "active")
+     * store.findByIndex("createdAt", {gte: Date.parse("2024-01-01"), lt: Date.parse("2025-01-01")})
+     */
+    findByIndex<T = any>(name: string, valueOrRange: IndexValue | IndexRange): Item<T>[] | undefined {
+        this.checkIndex(name)
+        const range: IndexRange & {value?: IndexValue} = typeof valueOrRange === "object"
+            ? valueOrRange
+            : {value: valueOrRange}
+        const params: {[name: string]: string | number} = {name}
+        const conditions = {
+            value: false, gt: false, gte: false, lt: false, lte: false,
+            valueType: undefined as "number" | "text" | undefined
+        }
+        for (const bound of ["value", "gt", "gte", "lt", "lte"] as const) {
+            const boundValue = range[bound]
+            if (boundValue === undefined) continue
+            conditions[bound] = true
+            params[bound] = toIndexValue(boundValue)
+            conditions.valueType ??= typeof boundValue === "string" ? "text" : "number"
+        }
+        const records = getIndexStatement(this.db, this.tables, conditions).all(params)
+        const now = Date.now()
+        const result: Item<T>[] = []
+        const keysToDelete: string[] = []
+        for (const record of records) {
+            const {key, expires} = record
+            if (expires && expires < now) {
+                // Mark key for deletion
+                keysToDelete.push(key)
+            } else {
+                result.push({
+                    key,
+                    value: this.getRecordValue<T>(key, record)
+                })
+            }
+        }
+        // Delete expired keys
+        this.deleteExpiredKeys(keysToDelete)
+        // Record the read accesses
+        this.recordAccess(records.filter(({expires}) => !expires || expires >= now))
+        // Return result
+        if (result.length) {
+            return result
+        }
+    }
+
+
+    /**
+     * Returns the items whose values match the conditions.
+     * The conditions are compiled to `json_extract()` SQL, so the values
+     * are filtered and sorted by SQLite without reading every row into JavaScript.
+     *
+     * Requires the JSON serializer (`serializer: "json"`) without compression and encryption.
+     * Hashes, lists, sets and sorted sets are not queried.
+     *
+     * @category Query
+     * @param {QueryOptions} options
+     *  `where`: Conditions by JSON path, e.g. `{"$.status": "open", "$.age": {gt: 18}}`.
+     *  Operators: `eq`, `ne`, `gt`, `gte`, `lt`, `lte`, `in`, `exists`.
+     *  `orderBy`: JSON path(s) to sort by, e.g. `{path: "$.createdAt", reverse: true}`.
+     *  `limit`, `offset`: Page of the result
+     * @returns {Item<T>[] | undefined}
+     *  Returns `undefined` if no item was found.
+     *
+     * @example
+     * const store = new BunSqliteKeyValue(":memory:", {serializer: "json"})
+     * store.set("task:1", {status: "open", priority: 3})
+     * store.set("task:2", {status: "done", priority: 5})
+     * store.query({where: {"$.status": "open", "$.priority": {gte: 2}}, orderBy: "$.priority"})
+     * // --> [{key: "task:1", value: {status: "open", priority: 3}}]
+     */
+    query<T = any>(options: QueryOptions = {}): Item<T>[] | undefined {
+        if (this.serializer.name !== "json") {
+            throw new Error(QUERY_NOT_SUPPORTED_ERROR_LABEL + " `query()` requires the JSON serializer.")
+        }
+        if (this.compression || this.encryptionKey) {
+            throw new Error(
+                QUERY_NOT_SUPPORTED_ERROR_LABEL + " `query()` can't read compressed or encrypted values."
+            )
+        }
+        const {statement, params} = getQueryStatement(this.db, this.tables, options, Date.now())
+        const records = statement.all(params)
+        if (!records.length) return
+        this.recordAccess(records)
+        return records.map((record) => ({
+            key: record.key,
+            value: this.decodeValue(record, ["value", record.key]) as T
+        }))
+    }
+
+
+    /**
+     * Registers a listener which is called after an item was changed.
+     *
+     * The listener is only called for keys matching the glob `pattern`
+     * (e.g. `"*"` for all keys or `"user:*"` for all keys starting with `"user:"`).
+     * For `rename` events, the pattern is compared with the old and the new key.
+     *
+     * Listeners are called synchronously after the change was committed.
+     * Changes made within a transaction trigger the events after the outermost transaction
+     * is committed. Changes which are rolled back don't trigger events.
+     * Errors raised by listeners don't affect the change and are passed to the option `onListenerError`.
+     * Only changes made by this instance trigger events.
+     *
+     * @category Events
+     * @param {KeyEventType} type
+     *  `"set"`, `"delete"`, `"expire"`, `"rename"`, `"tag"` or `"evict"`
+     * @param {string} pattern
+     *  Glob pattern with the wildcards `*`, `?` and `[...]`
+     * @param {KeyEventListener} listener
+     *
+     * @example
+     * ```typescript
+     * import { BunSqliteKeyValue } from "bun-sqlite-key-value"
+     *
+     * const store = new BunSqliteKeyValue()
+     *
+     * store.on("set", "user:*", ({key}) => console.log(`${key} was changed`))
+     * store.set("user:1", {name: "Alice"}) // --> "user:1 was changed"
+     * ```
+     */
+    on(type: KeyEventType, pattern: string, listener: KeyEventListener) {
+        this.keyEventListeners.push({type, pattern, regExp: globToRegExp(pattern), listener})
+    }
+
+
+    /**
+     * Removes a listener which was registered with `on()`.
+     *
+     * @category Events
+     * @param {KeyEventType} type
+     * @param {string} pattern
+     * @param {KeyEventListener} listener
+     */
+    off(type: KeyEventType, pattern: string, listener: KeyEventListener) {
+        this.keyEventListeners = this.keyEventListeners.filter((entry) => {
+            return entry.type !== type || entry.pattern !== pattern || entry.listener !== listener
+        })
+    }
+
+
+    // Checks if at least one listener is registered for `type` events
+    private hasKeyEventListeners(type: KeyEventType): boolean {
+        return this.keyEventListeners.some((entry) => entry.type === type)
+    }
+
+
+    // Queues the event for the listeners whose pattern matches the key of the event.
+    // The event is dispatched as soon as no transaction is open.
+    private emitKeyEvent(event: KeyEvent) {
+        if (!this.keyEventListeners.length) return
+        this.keyEventListeners.forEach(({type, regExp, listener}) => {
+            if (type !== event.type) return
+            if (regExp.test(event.key) || (event.newKey !== undefined && regExp.test(event.newKey))) {
+                this.pendingKeyEvents.push(() => {
+                    try {
+                        listener(event)
+                    } catch (error) {
+                        this.onListenerError(error, event)
+                    }
+                })
+            }
+        })
+        this.dispatchKeyEvents()
+    }
+
+
+    // Calls the listeners of the queued events if no transaction is open.
+    // Listeners can write to the store, so the queue is emptied before the calls.
+    private dispatchKeyEvents() {
+        if (this.db.inTransaction || !this.pendingKeyEvents.length) return
+        const dispatches = this.pendingKeyEvents.splice(0)
+        dispatches.forEach((dispatch) => dispatch())
+    }
+
+
+    /**
+     * Returns the changes logged after the change with the ID `sinceId`.
+     *
+     * The changes are only logged if the database was opened with the option `changelog: true`.
+     * All processes that use the same database file log into the same changelog.
+     *
+     * @category Changelog
+     * @param {number} sinceId
+     *  ID of the last change already known. `0` returns all logged changes.
+     * @param {number} limit
+     *  Maximum number of returned changes
+     * @returns {Change[]}
+     *  Changes ordered by ID
+     */
+    getChanges(sinceId: number = 0, limit: number = -1): Change[] {
+        return this.statements.getChanges.all({sinceId, limit})
+    }
+
+
+    /**
+     * Returns the ID of the last logged change or `0` if nothing has been logged yet.
+     *
+     * @category Changelog
+     * @returns {number}
+     */
+    getLastChangeId(): number {
+        return this.statements.getLastChangeId.get()?.id ?? 0
+    }
+
+
+    /**
+     * Deletes the logged changes up to and including the change with the ID `untilId`.
+     *
+     * The IDs of deleted changes are not reused.
+     *
+     * @category Changelog
+     * @param {number} untilId
+     *  If `undefined`, all logged changes are deleted.
+     */
+    deleteChanges(untilId?: number) {
+        this.statements.deleteChanges.run({untilId: untilId ?? Number.MAX_SAFE_INTEGER})
+    }
+
+
+    /**
+     * Yields the logged changes in their order, also those of other processes.
+     * After all existing changes have been yielded, it waits for new changes.
+     *
+     * The iteration ends when the database is closed or `signal` is aborted.
+     *
+     * @category Changelog
+     * @param {number} sinceId
+     *  ID of the last change already known.
+     *  If `undefined`, only changes logged after the call are yielded.
+     * @param {AbortSignal} signal
+     *  Stops the iteration
+     * @returns {AsyncGenerator<Change>}
+     *
+     * @example
+     * ```typescript
+     * import { BunSqliteKeyValue } from "bun-sqlite-key-value"
+     *
+     * const store = new BunSqliteKeyValue("shared.sqlite", {changelog: true})
+     *
+     * for await (const {id, operation, key} of store.watch()) {
+     *     console.log(id, operation, key)  // --> 1 "update" "myKey"
+     * }
+     * ```
+     */
+    async *watch(sinceId?: number, signal?: AbortSignal): AsyncGenerator<Change> {
+        let lastId: number = sinceId ?? this.getLastChangeId()
+        while (!this.isClosed && !signal?.aborted) {
+            const changes = this.getChanges(lastId, CHANGELOG_BATCH_SIZE)
+            for (const change of changes) {
+                yield change
+                lastId = change.id
+                if (this.isClosed || signal?.aborted) return
+            }
+            if (changes.length < CHANGELOG_BATCH_SIZE) {
+                await Bun.sleep(CHANGELOG_POLL_INTERVAL_MS)
+            }
+        }
+    }
+
+
+    /**
+     * Encrypts, decrypts or re-encrypts all values in one transaction.
+     *
+     * - Encrypt an unencrypted database: `rotateEncryptionKey(undefined, newKey)`
+     * - Change the key: `rotateEncryptionKey(oldKey, newKey)`
+     * - Decrypt the database: `rotateEncryptionKey(oldKey, undefined)`
+     *
+     * All namespaces of the database file which use `oldKey` are changed
+     * (with `oldKey` = `undefined`: all unencrypted namespaces).
+     * Namespaces with other keys are not changed.
+     *
+     * From now on, this instance and the other stores of the same connection
+     * (e.g. created with `namespace()`) use `newKey`.
+     * Other connections to the same database file must be opened again with `newKey`.
+     *
+     * Namespaces with secondary indexes can't be encrypted (see `createIndex()`).
+     *
+     * @category Encryption
+     * @param {EncryptionKey | undefined} oldKey
+     *  Current key or `undefined` if the database is not encrypted
+     * @param {EncryptionKey | undefined} newKey
+     *  New key or `undefined` to decrypt the database
+     */
+    rotateEncryptionKey(oldKey?: EncryptionKey, newKey?: EncryptionKey) {
+        const rotatedKeys: Map<string, {secret: EncryptionKey, key: Buffer} | undefined> = new Map()
+        this.transaction(() => {
+            // Re-encrypt all namespaces of the database file which use the old key
+            getNamespaces(this.db).forEach((namespace) => {
+                const tables = getTableNames(namespace)
+                let statements = this.statements
+                if (tables.prefix !== this.tables.prefix) {
+                    createTables(this.db, tables)
+                    statements = getStatements(this.db, tables)
+                }
+                const keyCheck = statements.getSetting.get({name: "encryption_key_check"})?.value
+                if ((keyCheck === undefined) !== (oldKey === undefined)) return
+                const oldEncryptionKey = oldKey ? this.getValidEncryptionKey(statements, oldKey) : undefined
+                if (oldKey && !oldEncryptionKey) return
+                if (newKey && statements.getIndexDefinitions.all().length) {
+                    throw new Error(INDEX_ERROR_LABEL + " Encrypted databases can't be indexed. Drop the indexes first.")
+                }
+                let newEncryptionKey: Buffer | undefined
+                if (newKey) {
+                    newEncryptionKey = this.setEncryptionKeyCheck(statements, newKey)
+                } else {
+                    statements.deleteSetting.run({name: "encryption_key_check"})
+                    statements.deleteSetting.run({name: "encryption_kdf"})
+                }
+                this.reEncryptValues(statements, oldEncryptionKey, newEncryptionKey)
+                rotatedKeys.set(tables.prefix, newKey && newEncryptionKey ? {secret: newKey, key: newEncryptionKey} : undefined)
+            })
+
+            // Check the old key of this namespace
+            if (!rotatedKeys.has(this.tables.prefix)) {
+                const keyCheck = this.statements.getSetting.get({name: "encryption_key_check"})?.value
+                throw new Error(
+                    ENCRYPTION_KEY_ERROR_LABEL +
+                    (keyCheck === undefined ? " The database is not encrypted." : " The old encryption key does not match.")
+                )
+            }
+        })
+
+        // Other stores of the connection use the new keys as well
+        rotatedKeys.forEach((encryptionKey, prefix) => {
+            if (encryptionKey) {
+                this.encryptionKeys.set(prefix, encryptionKey)
+            } else {
+                this.encryptionKeys.delete(prefix)
+            }
+        })
+    }
+
+
+    // Decrypts the values of a namespace with `oldEncryptionKey` and encrypts them with `newEncryptionKey`
+    // (`undefined` for unencrypted values).
+    // With `renamed`, only the values of the renamed item are re-encrypted,
+    // because the key is part of the associated data.
+    private reEncryptValues(
+        statements: Statements,
+        oldEncryptionKey: Buffer | undefined,
+        newEncryptionKey: Buffer | undefined,
+        renamed?: {oldKey: Key, newKey: Key}
+    ) {
+        const tableStatements = [
+            ["value", statements.getItemValues, statements.getItemValuesOfKey, statements.setItemValue],
+            ["hash", statements.getHashFieldValues, statements.getHashFieldValuesOfKey, statements.setHashFieldValue],
+            ["list", statements.getListElementValues, statements.getListElementValuesOfKey, statements.setListElementValue],
+        ] as const
+        tableStatements.forEach(([type, getValues, getValuesOfKey, setValue]) => {
+            const rows = renamed ? getValuesOfKey.all({key: renamed.newKey}) : getValues.all()
+            rows.forEach(({rowid, key, field, value}) => {
+                const getLocation = (key: Key) => field === undefined ? [type, key] : [type, key, field]
+                const oldLocation = getLocation(renamed?.oldKey ?? key)
+                const plainData = oldEncryptionKey ? decrypt(value, oldEncryptionKey, getAssociatedData(oldLocation)) : value
+                const data = newEncryptionKey ? encrypt(plainData, newEncryptionKey, getAssociatedData(getLocation(key))) : plainData
+                setValue.run({rowid, value: data})
+            })
+        })
     }
 
 }
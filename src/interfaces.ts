@@ -1,3 +1,6 @@
+import type { BunSqliteKeyValue } from "./index.ts"
+
+
 /**
  * Key
  *
@@ -27,6 +30,222 @@ export type Tag = string
 export type Field = string
 
 
+/** Member of a sorted set with its score */
+export interface ScoredMember {
+    member: string
+    score: number
+}
+
+
+/**
+ * Type of a key event
+ *
+ * - `set`: The value of the item was written or changed (also by hash, list, set and sorted set methods)
+ * - `delete`: The item was deleted
+ * - `expire`: The item was deleted because it has expired
+ * - `rename`: The item was renamed
+ * - `tag`: A tag was added to the item or removed from it
+ * - `evict`: The item was deleted because the limit `maxItems` or `maxBytes` was exceeded
+ */
+export type KeyEventType = "set" | "delete" | "expire" | "rename" | "tag" | "evict"
+
+
+/** Key event, passed to the listeners registered with `on()` */
+export interface KeyEvent {
+    type: KeyEventType
+    key: Key
+    /** New key (only `rename` events) */
+    newKey?: Key
+    /** Added or removed tag (only `tag` events) */
+    tag?: Tag
+    /** Was the tag added or removed? (only `tag` events) */
+    tagAction?: "add" | "delete"
+}
+
+
+/** Listener for key events */
+export type KeyEventListener = (event: KeyEvent) => void
+
+
+/** Entry of the changelog table */
+export interface Change {
+    /** Ascending ID of the change */
+    id: number
+    operation: "insert" | "update" | "delete"
+    key: Key
+    /** Time of the change in milliseconds since epoch */
+    timestamp: number
+}
+
+
+/**
+ * Filter, order and page of `getKeys()`, `getItems()`, `getValues()`...
+ * All given conditions must match.
+ * The keys are sorted by key (ascending, or descending with `reverse`).
+ */
+export interface SelectOptions {
+    /** Only keys starting with this string */
+    startsWith?: string
+    /** Only keys matching the glob pattern (`*`, `?`, `[...]`) */
+    glob?: string
+    /**
+     * Only keys matching the regular expression.
+     * If it starts with `^` and a literal prefix (e.g. `/^user:\d+$/`),
+     * the prefix is used to narrow down the rows read from the database.
+     */
+    regex?: RegExp
+    /** Only keys greater than or equal to this string */
+    gte?: string
+    /** Only keys less than this string */
+    lt?: string
+    /**
+     * Only keys after this key (in the sort order).
+     * Pass the last key of the previous page to get the next page.
+     */
+    after?: string
+    /** Sorts the keys in descending order */
+    reverse?: boolean
+    /** Maximum number of returned keys */
+    limit?: number
+    /** Number of keys to skip */
+    offset?: number
+    /** Adds the metadata (`meta`) to the returned items (only `getItems()`) */
+    withMeta?: boolean
+}
+
+
+/** Options for `scan()`, `iterateKeys()` and `iterateItems()` */
+export interface ScanOptions {
+    /** Only keys starting with `prefix` */
+    prefix?: string
+    /** Only keys matching the glob pattern (`*`, `?`, `[...]`) */
+    match?: string
+    /** Number of rows read per page */
+    count?: number
+}
+
+
+/** Page of `scan()` */
+export interface ScanResult {
+    /**
+     * Cursor for the next page or `undefined` if all keys have been scanned
+     */
+    cursor: string | undefined
+    keys: Key[]
+}
+
+
+/** Page of `scanItems()` */
+export interface ScanItemsResult<T> {
+    /**
+     * Cursor for the next page or `undefined` if all items have been scanned
+     */
+    cursor: string | undefined
+    items: Item<T>[]
+}
+
+
+/**
+ * Value of a secondary index entry.
+ * Booleans are stored as `1` and `0`.
+ */
+export type IndexValue = string | number | boolean
+
+
+/**
+ * Returns the value (or values) under which the item is indexed.
+ * Items for which `undefined` or `null` is returned are not indexed.
+ */
+export type IndexExtractor<T = any> = (value: T, key: Key) => IndexValue | IndexValue[] | null | undefined
+
+
+/** Value range for `findByIndex()` */
+export interface IndexRange {
+    gt?: IndexValue
+    gte?: IndexValue
+    lt?: IndexValue
+    lte?: IndexValue
+}
+
+
+/**
+ * Value compared by `query()`.
+ * Booleans are compared as `1` and `0` (like `json_extract()` returns them).
+ * `null` also matches paths which don't exist.
+ */
+export type QueryValue = string | number | boolean | null
+
+
+/** Comparison operators of `query()` */
+export interface QueryOperators {
+    eq?: QueryValue
+    ne?: QueryValue
+    gt?: QueryValue
+    gte?: QueryValue
+    lt?: QueryValue
+    lte?: QueryValue
+    in?: QueryValue[]
+    /** `true`: The path must exist, `false`: The path must not exist */
+    exists?: boolean
+}
+
+
+/** Sort order of `query()` */
+export interface QueryOrder {
+    /** JSON path, e.g. `"$.createdAt"` */
+    path: string
+    /** Sorts in descending order */
+    reverse?: boolean
+}
+
+
+/** Options for `query()` */
+export interface QueryOptions {
+    /**
+     * Conditions by JSON path (e.g. `{"$.status": "open", "$.age": {gt: 18}}`).
+     * A value is compared for equality. All conditions must match.
+     * Paths without leading `$` are relative to the root (`"status"` --> `"$.status"`).
+     */
+    where?: {[path: string]: QueryValue | QueryOperators}
+    /** JSON path(s) to sort by. Items with equal values are sorted by key. */
+    orderBy?: string | QueryOrder | (string | QueryOrder)[]
+    /** Maximum number of returned items */
+    limit?: number
+    /** Number of items to skip */
+    offset?: number
+}
+
+
+/**
+ * Versions of watched keys (key --> version), returned by `watchKeys()`
+ */
+export type WatchedKeys = Map<Key, number>
+
+
+/**
+ * Metadata of an item, returned by `getItemMeta()`
+ *
+ * All times are in milliseconds since epoch.
+ * Items written by older versions have no `created` and `updated` times.
+ */
+export interface ItemMeta {
+    /** Time the item was created */
+    created: number | null
+    /** Time the item was last changed */
+    updated: number | null
+    /** Expiration time */
+    expires: number | null
+    /** Version of the item, increased by each change */
+    version: number
+    /** Time of the last read access (only with the option `trackAccess`) */
+    lastAccessed: number | null
+    /** Number of read accesses (only with the option `trackAccess`) */
+    hits: number
+    /** Storage type (`null` for simple values) */
+    type: ItemType | null
+}
+
+
 /** Key value pair */
 export interface Item<T> {
     key: Key
@@ -42,14 +261,88 @@ export interface Item<T> {
      * [supported data types](https://developer.mozilla.org/en-US/docs/Web/API/Web_Workers_API/Structured_clone_algorithm#supported_types) here.
      */
     value: T | undefined
+
+    /** Metadata (only `getItems()` with `withMeta: true`) */
+    meta?: ItemMeta
+}
+
+
+/**
+ * Storage type of an item (internally used)
+ *
+ * Items without type contain the serialized value in the `value` column.
+ * The data of hashes is stored in the `hash_fields` table,
+ * the elements of lists are stored in the `list_elements` table
+ * and the members of sorted sets are stored in the `zset_members` table.
+ */
+export type ItemType = "hash" | "list" | "zset"
+
+
+/** Compression algorithm */
+export type CompressionAlgorithm = "gzip" | "deflate" | "zstd"
+
+
+/** Compression options */
+export interface CompressionOptions {
+    /**
+     * Compression algorithm (default: `"gzip"`)
+     */
+    algorithm?: CompressionAlgorithm
+    /**
+     * Serialized values smaller than `minBytes` are stored uncompressed (default: 1024)
+     */
+    minBytes?: number
+    /**
+     * Compression level (`-1` to `9` for gzip and deflate, `1` to `22` for zstd)
+     */
+    level?: number
+}
+
+
+/**
+ * Serialized value of a table row and its compression (internally used)
+ *
+ * `compression` is `null` if the value is not compressed.
+ */
+export interface EncodedValue {
+    value: Uint8Array | null
+    compression: CompressionAlgorithm | null
 }
 
 
 /** Table row (internally used) */
-export interface Record {
+export interface Record extends EncodedValue {
     key: Key
-    value: Buffer | null,
     expires: number | null
+    type: ItemType | null
+    /** TTL of items with sliding expiration (only read by some statements) */
+    slidingTtl?: number | null
+}
+
+
+/** Secondary index definition stored in the settings table (internally used) */
+export interface IndexDefinition {
+    /** `null` for indexes with extractor functions */
+    fieldPath: string | null
+    /** Items were written by an instance which doesn't know the extractor function */
+    stale?: boolean
+}
+
+
+/** Encrypted value of a table row and its location (internally used) */
+export interface EncryptedValueRow {
+    rowid: number
+    key: Key
+    /** Only for hash fields */
+    field?: Field
+    value: Uint8Array
+}
+
+
+/** Expiration time and sliding TTL of a table row (internally used) */
+export interface Expiration {
+    expires: number | null
+    slidingTtl: number | null
 }
 
 
@@ -64,6 +357,30 @@ export interface Record {
 export type TtlMs = number | undefined
 
 
+/**
+ * Expiration options of `set()`, `hSet()` and `incr()`
+ *
+ * Only one of them should be specified. `keepTtl` takes precedence over `expiresAt`,
+ * `expiresAt` takes precedence over `ttlMs`.
+ */
+export interface SetOptions {
+    /** Time to live in milliseconds */
+    ttlMs?: TtlMs
+    /** Absolute expiration time (timestamp in milliseconds or `Date`) */
+    expiresAt?: number | Date
+    /**
+     * Keeps the expiration time of the existing item.
+     * If the item does not exist, `ttlMs` or `expiresAt` is used.
+     */
+    keepTtl?: boolean
+    /**
+     * Renews the expiration time on each read access (default: option `slidingTtl`).
+     * Only applies to `ttlMs`, not to `expiresAt`.
+     */
+    slidingTtl?: boolean
+}
+
+
 /**
  * Specifies the maximum number of expiring entries that may be in the database.
  *
@@ -74,6 +391,39 @@ export type TtlMs = number | undefined
 export type MaxExpiringItems = number | undefined
 
 
+/** Names of the built-in serializers */
+export type SerializerName = "v8" | "json" | "string" | "raw"
+
+
+/**
+ * Converts values into bytes and back.
+ *
+ * The `name` is recorded in the database.
+ * Opening the database with a serializer of another name raises an error.
+ */
+export interface Serializer {
+    name: string
+    serialize: (value: any) => Uint8Array
+    deserialize: (data: Uint8Array) => any
+}
+
+
+/** Encryption key: a (long, random) string or 32 bytes */
+export type EncryptionKey = string | Uint8Array
+
+
+/**
+ * Eviction policy (like the `maxmemory-policy` of Redis)
+ *
+ * - `lru`: Evicts the least recently used items (read or written)
+ * - `lfu`: Evicts the least frequently read items
+ * - `fifo`: Evicts the oldest items (by creation time)
+ * - `volatile-lru`: Evicts the least recently used items with an expiration time
+ * - `allkeys-random`: Evicts random items
+ */
+export type EvictionPolicy = "lru" | "lfu" | "fifo" | "volatile-lru" | "allkeys-random"
+
+
 /**
  * Database options
  */
@@ -102,10 +452,116 @@ export interface Options {
      * Is used by the `deleteOldExpiringItems()` method as default value.
      */
     maxExpiringItemsInDb?: MaxExpiringItems
+    /**
+     * Write all changes of items into the changelog table (default: `undefined`).
+     * The changes can be read with `getChanges()` and `watch()`,
+     * also by other processes that use the same database file.
+     * `false` stops logging, `undefined` keeps the current setting of the database.
+     */
+    changelog?: boolean
+    /**
+     * Serializer for the values (default: `"v8"`).
+     * `"v8"`, `"json"`, `"string"`, `"raw"` or a custom serializer.
+     * The serializer is recorded in the database, so that
+     * a database can't be opened with another serializer.
+     */
+    serializer?: SerializerName | Serializer
+    /**
+     * Compresses serialized values with at least `minBytes` bytes (default: no compression).
+     * Pass an algorithm (`"gzip"`, `"deflate"`, `"zstd"`) or compression options.
+     * Compressed and uncompressed values can coexist in the database.
+     */
+    compression?: CompressionAlgorithm | CompressionOptions
+    /**
+     * Encrypts the values with AES-256-GCM (default: no encryption).
+     * Strings are stretched with scrypt and a random salt recorded in the database,
+     * byte arrays must be 32 bytes long.
+     * Keys, hash fields, sorted set members, scores and tags are not encrypted.
+     * Use `rotateEncryptionKey()` to encrypt an existing database or to change the key.
+     */
+    encryptionKey?: EncryptionKey
+    /**
+     * Name of the namespace (default: `undefined`).
+     * Each namespace has its own tables in the database file (prefixed with `<namespace>_`),
+     * so multiple isolated stores can share one database file.
+     * Only letters, digits and underscores are allowed.
+     */
+    namespace?: string
+    /**
+     * Records the time of the last read access and the number of read accesses
+     * of each item (default: false). Read them with `getItemMeta()`.
+     * Each read access becomes a write access to the database.
+     * Reads of values, hashes, lists, sets and sorted sets are read accesses.
+     * Reads of keys and metadata and scans like `iterateItems()` are no read accesses.
+     */
+    trackAccess?: boolean
+    /**
+     * Maximum number of items (default: no limit).
+     * If a write exceeds the limit, items are evicted according to `evictionPolicy`.
+     */
+    maxItems?: number
+    /**
+     * Maximum size of the keys and values in bytes (default: no limit).
+     * If a write exceeds the limit, items are evicted according to `evictionPolicy`.
+     * The size is calculated from the stored (serialized, compressed, encrypted) values.
+     */
+    maxBytes?: number
+    /**
+     * Which items are evicted first if `maxItems` or `maxBytes` is exceeded (default: `"lru"`).
+     * `"lru"`, `"lfu"` and `"volatile-lru"` record the read accesses (like `trackAccess`).
+     */
+    evictionPolicy?: EvictionPolicy
+    /**
+     * Fraction of the limits `maxItems` and `maxBytes` down to which items are evicted
+     * if a write exceeds a limit (default: `0.9`). Then the following writes don't evict items
+     * until a limit is exceeded again. `1` evicts as few items as possible with each write.
+     */
+    evictionLowWaterMark?: number
+    /**
+     * Interval in milliseconds in which expired items are deleted (default: no periodic cleanup).
+     * The items are deleted in small batches, so that other connections are not blocked.
+     * The timer does not keep the process alive and is stopped by `close()`.
+     */
+    cleanupIntervalMs?: number
+    /**
+     * Is called after each periodic cleanup with the number of deleted expired items.
+     */
+    onCleanup?: (deletedCount: number) => void
+    /**
+     * Is called if an event listener (see `on()`) raises an error (default: `console.error`).
+     * The error does not affect the change, because the listeners are called after the commit.
+     */
+    onListenerError?: (error: unknown, event: KeyEvent) => void
+    /**
+     * Renews the expiration time of items written with TTL on each read access (default: false),
+     * e.g. by `get()`, `getItems()`, `hGet()` or `lIndex()`, but not by scans like `iterateItems()`.
+     * Can also be enabled per item with the `set()` option `slidingTtl`.
+     */
+    slidingTtl?: boolean
 }
 
 
 // Internally used database options
-export interface DbOptions extends Omit<Options, "ttlMs"> {
+export interface DbOptions extends Omit<
+    Options,
+    "ttlMs" | "changelog" | "serializer" | "compression" | "encryptionKey" | "namespace" | "trackAccess" |
+    "maxItems" | "maxBytes" | "evictionPolicy" | "evictionLowWaterMark" | "cleanupIntervalMs" | "onCleanup" | "onListenerError" | "slidingTtl"
+> {
     strict: boolean
 }
+
+
+// Method call sent to the worker of `BunSqliteKeyValueAsync` (internally used)
+export interface WorkerRequest {
+    id: number
+    method: "open" | keyof BunSqliteKeyValue
+    args: unknown[]
+}
+
+
+// Response of the worker of `BunSqliteKeyValueAsync` (internally used)
+export interface WorkerResponse {
+    id: number
+    result?: unknown
+    error?: string
+}
@@ -0,0 +1,81 @@
+import { serialize, deserialize } from "node:v8"
+import type { Serializer, SerializerName } from "./interfaces.ts"
+
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+
+// Converts strings, buffers, typed arrays and array buffers into bytes.
+// All other values are converted into strings first.
+function toBytes(value: any): Uint8Array {
+    if (value instanceof Uint8Array) return value
+    if (value instanceof ArrayBuffer) return new Uint8Array(value)
+    if (ArrayBuffer.isView(value)) return new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    return textEncoder.encode(String(value))
+}
+
+
+// Map and Set objects are stored as `{"$map": [[key, value], ...]}` and `{"$set": [value, ...]}`
+function jsonReplacer(_: string, value: any): any {
+    if (value instanceof Map) return {$map: Array.from(value.entries())}
+    if (value instanceof Set) return {$set: Array.from(value)}
+    return value
+}
+
+
+function jsonReviver(_: string, value: any): any {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+        const keys = Object.keys(value)
+        if (keys.length === 1) {
+            if (keys[0] === "$map" && Array.isArray(value.$map)) return new Map(value.$map)
+            if (keys[0] === "$set" && Array.isArray(value.$set)) return new Set(value.$set)
+        }
+    }
+    return value
+}
+
+
+/**
+ * Built-in serializers
+ *
+ * - `v8`: Serializes nearly all JavaScript data types (default)
+ * - `json`: UTF-8 encoded JSON, readable by other languages (Map and Set objects are tagged)
+ * - `string`: UTF-8 encoded strings, other values are converted into strings
+ * - `raw`: Stores buffers and strings without conversion, values are returned as `Buffer`
+ */
+export const SERIALIZERS: {[name in SerializerName]: Serializer} = {
+
+    v8: {
+        name: "v8",
+        serialize,
+        deserialize,
+    },
+
+    json: {
+        name: "json",
+        serialize: (value: any) => textEncoder.encode(JSON.stringify(value, jsonReplacer) ?? "null"),
+        deserialize: (data: Uint8Array) => JSON.parse(textDecoder.decode(data), jsonReviver),
+    },
+
+    string: {
+        name: "string",
+        serialize: (value: any) => toBytes(value),
+        deserialize: (data: Uint8Array) => textDecoder.decode(data),
+    },
+
+    raw: {
+        name: "raw",
+        serialize: (value: any) => toBytes(value),
+        deserialize: (data: Uint8Array) => Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+    },
+
+}
+
+
+// Returns the built-in serializer with the name `serializer` or the custom serializer itself
+export function getSerializer(serializer?: SerializerName | Serializer): Serializer {
+    if (serializer === undefined) return SERIALIZERS.v8
+    if (typeof serializer === "string") return SERIALIZERS[serializer]
+    return serializer
+}
@@ -0,0 +1,37 @@
+// Worker of `BunSqliteKeyValueAsync`.
+// Opens the store and executes the method calls received from the main thread.
+
+import { BunSqliteKeyValue } from "./index.ts"
+import type { Options, WorkerRequest, WorkerResponse } from "./interfaces.ts"
+
+
+declare const self: Worker
+let store: BunSqliteKeyValue
+
+
+// Returns the method of the store.
+// Raises an error if `name` is not a method (e.g. a property like `db`).
+function getMethod(name: keyof BunSqliteKeyValue): (...args: unknown[]) => unknown {
+    const method: unknown = store[name]
+    if (typeof method !== "function") {
+        throw new TypeError(`"${name}" is not a method of the store.`)
+    }
+    return method as (...args: unknown[]) => unknown
+}
+
+
+self.addEventListener("message", async (event: MessageEvent<WorkerRequest>) => {
+    const {id, method, args} = event.data
+    let response: WorkerResponse
+    try {
+        if (method === "open") {
+            store = new BunSqliteKeyValue(...args as [string | undefined, Options | undefined])
+            response = {id}
+        } else {
+            response = {id, result: await getMethod(method).apply(store, args)}
+        }
+    } catch (error: any) {
+        response = {id, error: error?.message ?? String(error)}
+    }
+    self.postMessage(response)
+})
@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, expect, test } from "bun:test"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import { mkdtemp, rm } from "node:fs/promises"
+import { BunSqliteKeyValue, BunSqliteKeyValueAsync, INDEX_OUT_OF_RANGE_ERROR_LABEL } from "../src"
+
+
+const KEY_1: string = "test-key-1"
+const KEY_2: string = "test-key-2"
+const VALUE_1: string = "Hello world 1"
+const VALUE_2: string = "Hello moon 2"
+
+let dbDir: string
+
+
+beforeAll(async () => {
+    dbDir = await mkdtemp(join(tmpdir(), "bun-sqlite-key-value"))
+})
+
+
+test("Async basic methods", async () => {
+    const store = new BunSqliteKeyValueAsync()
+
+    expect(await store.set(KEY_1, VALUE_1)).toEqual(KEY_1)
+    expect(await store.get<string>(KEY_1)).toEqual(VALUE_1)
+    await store.setItems([{key: KEY_2, value: new Map([["a", 1]])}])
+    expect(await store.getItems()).toEqual([
+        {key: KEY_1, value: VALUE_1},
+        {key: KEY_2, value: new Map([["a", 1]])},
+    ])
+    expect(await store.has(KEY_1)).toBeTrue()
+    expect(await store.count()).toEqual(2)
+    await store.del(KEY_1)
+    expect(await store.get(KEY_1)).toBeUndefined()
+    await store.close()
+})
+
+
+test("Async errors", async () => {
+    const store = new BunSqliteKeyValueAsync()
+
+    await store.rPush(KEY_1, VALUE_1)
+    const error = await store.lSet(KEY_1, 5, VALUE_2).catch((error: Error) => error)
+    expect(error).toBeInstanceOf(Error)
+    expect((error as Error).message).toStartWith(INDEX_OUT_OF_RANGE_ERROR_LABEL)
+    expect(await store.lIndex(KEY_1, 0)).toEqual(VALUE_1)
+
+    // Only methods can be called
+    const request = Reflect.get(store, "request") as (method: string, args: unknown[]) => Promise<unknown>
+    const propertyError = await request.call(store, "db", []).catch((error: Error) => error)
+    expect((propertyError as Error).message).toContain("is not a method")
+    await store.close()
+
+    expect(() => {
+        const serializer = {name: "custom", serialize: Buffer.from, deserialize: String}
+        new BunSqliteKeyValueAsync(undefined, {serializer})
+    }).toThrowError(TypeError)
+    expect(() => new BunSqliteKeyValueAsync(undefined, {onCleanup: () => {}})).toThrowError(TypeError)
+})
+
+
+test("Async and sync store share the database file", async () => {
+    const dbPath = join(dbDir, "async.sqlite")
+    const asyncStore = new BunSqliteKeyValueAsync(dbPath, {changelog: true})
+    const syncStore = new BunSqliteKeyValue(dbPath)
+
+    await asyncStore.set(KEY_1, VALUE_1)
+    expect(syncStore.get(KEY_1)).toEqual(VALUE_1)
+
+    const blockingPop = asyncStore.bLPop<string>(KEY_2, 2000)
+    syncStore.rPush(KEY_2, VALUE_2)
+    expect(await blockingPop).toEqual({key: KEY_2, value: VALUE_2})
+
+    const changes = asyncStore.watch()
+    const nextChange = changes.next()
+    await Bun.sleep(100)
+    syncStore.delete(KEY_1)
+    expect((await nextChange).value).toMatchObject({operation: "delete", key: KEY_1})
+
+    syncStore.close()
+    await asyncStore.close()
+})
+
+
+test("Async watch() reads the changelog in batches", async () => {
+    const store = new BunSqliteKeyValueAsync(undefined, {changelog: true})
+
+    const items = Array.from({length: 250}, (_, index) => ({key: `key-${index}`, value: index}))
+    await store.setItems(items)
+    const keys: string[] = []
+    for await (const {key} of store.watch(0)) {
+        keys.push(key)
+        if (keys.length === items.length) break
+    }
+    expect(keys).toEqual(items.map(({key}) => key))
+
+    await store.close()
+})
+
+
+test("Async iterateKeys(), iterateItems()", async () => {
+    const store = new BunSqliteKeyValueAsync()
+
+    await store.setItems([{key: KEY_1, value: VALUE_1}, {key: KEY_2, value: VALUE_2}])
+    expect(await store.scan(undefined, {count: 1})).toEqual({cursor: KEY_1, keys: [KEY_1]})
+
+    const keys: string[] = []
+    for await (const key of store.iterateKeys({count: 1})) {
+        keys.push(key)
+    }
+    expect(keys).toEqual([KEY_1, KEY_2])
+
+    const items = []
+    for await (const item of store.iterateItems({match: "*-2"})) {
+        items.push(item)
+    }
+    expect(items).toEqual([{key: KEY_2, value: VALUE_2}])
+
+    await store.close()
+})
+
+afterAll(async () => {
+    await rm(dbDir, {recursive: true})
+})
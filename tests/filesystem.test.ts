@@ -3,7 +3,7 @@ import { join } from "node:path"
 import { tmpdir } from 'node:os'
 import { mkdtemp } from 'node:fs/promises'
 import { rm, rmdir, exists } from "node:fs/promises"
-import { BunSqliteKeyValue } from "../src"
+import { BunSqliteKeyValue, ENCRYPTION_KEY_ERROR_LABEL, INDEX_ERROR_LABEL, KEY_CHANGED_ERROR_LABEL, SERIALIZER_MISMATCH_ERROR_LABEL } from "../src"
 
 
 const KEY_1: string = "test-key-1"
@@ -79,6 +79,188 @@ test("Get items as array (extended tests)", () => {
 })
 
 
+test("Blocking pop with element pushed by another connection", async () => {
+    const consumer: BunSqliteKeyValue = new BunSqliteKeyValue(dbPath)
+    const producer: BunSqliteKeyValue = new BunSqliteKeyValue(dbPath)
+
+    setTimeout(() => producer.rPush("jobs", STRING_VALUE_1), 20)
+    expect(await consumer.bLPop<string>("jobs", 2000)).toEqual({key: "jobs", value: STRING_VALUE_1})
+
+    consumer.close()
+    producer.close()
+})
+
+
+test("Watch changes of another connection", async () => {
+    const watcher: BunSqliteKeyValue = new BunSqliteKeyValue(dbPath, {changelog: true})
+    const writer: BunSqliteKeyValue = new BunSqliteKeyValue(dbPath)
+
+    const controller = new AbortController()
+    const changes = watcher.watch(undefined, controller.signal)
+    setTimeout(() => {
+        writer.set<string>("watched", STRING_VALUE_1)
+        writer.delete("watched")
+    }, 100)
+    expect((await changes.next()).value).toMatchObject({operation: "insert", key: "watched"})
+    expect((await changes.next()).value).toMatchObject({operation: "delete", key: "watched"})
+    controller.abort()
+    expect((await changes.next()).done).toBeTrue()
+
+    writer.close()
+    watcher.close()
+})
+
+
+test("Serializer mismatch", async () => {
+    const jsonDbPath = join(dbDir, "json.sqlite")
+    const jsonStore: BunSqliteKeyValue = new BunSqliteKeyValue(jsonDbPath, {serializer: "json"})
+    jsonStore.set(KEY_1, STRING_VALUE_1)
+    jsonStore.close()
+
+    expect(() => {
+        new BunSqliteKeyValue(jsonDbPath)
+    }).toThrowError(SERIALIZER_MISMATCH_ERROR_LABEL)
+
+    // Databases without recorded serializer contain v8 serialized values
+    const legacyStore: BunSqliteKeyValue = new BunSqliteKeyValue(dbPath)
+    legacyStore.db.run("DELETE FROM settings")
+    legacyStore.close()
+    expect(() => {
+        new BunSqliteKeyValue(dbPath, {serializer: "json"})
+    }).toThrowError(SERIALIZER_MISMATCH_ERROR_LABEL)
+    const store: BunSqliteKeyValue = new BunSqliteKeyValue(dbPath)
+    expect(store.get(KEY_1)).toEqual(STRING_VALUE_1)
+    store.close()
+})
+
+
+test("Read compressed values without compression option", async () => {
+    const compressedDbPath = join(dbDir, "compressed.sqlite")
+    const largeValue = STRING_VALUE_1.repeat(1000)
+    const compressingStore: BunSqliteKeyValue = new BunSqliteKeyValue(compressedDbPath, {compression: "zstd"})
+    compressingStore.set(KEY_1, largeValue)
+    compressingStore.close()
+
+    const store: BunSqliteKeyValue = new BunSqliteKeyValue(compressedDbPath)
+    expect(store.get(KEY_1)).toEqual(largeValue)
+    store.set(KEY_2, largeValue)
+    expect(store.db.query("SELECT key, compression FROM items ORDER BY key").all()).toEqual([
+        {key: KEY_1, compression: "zstd"},
+        {key: KEY_2, compression: null},
+    ])
+    store.close()
+})
+
+
+test("Open encrypted database", async () => {
+    const encryptedDbPath = join(dbDir, "encrypted.sqlite")
+    const encryptedStore: BunSqliteKeyValue = new BunSqliteKeyValue(encryptedDbPath, {encryptionKey: "secret"})
+    encryptedStore.set(KEY_1, STRING_VALUE_1)
+    encryptedStore.close()
+
+    expect(() => {
+        new BunSqliteKeyValue(encryptedDbPath)
+    }).toThrowError(ENCRYPTION_KEY_ERROR_LABEL)
+    expect(() => {
+        new BunSqliteKeyValue(encryptedDbPath, {encryptionKey: "wrong-secret"})
+    }).toThrowError(ENCRYPTION_KEY_ERROR_LABEL)
+    const store: BunSqliteKeyValue = new BunSqliteKeyValue(encryptedDbPath, {encryptionKey: "secret"})
+    expect(store.get(KEY_1)).toEqual(STRING_VALUE_1)
+    store.close()
+
+    // Unencrypted database with values
+    expect(() => {
+        new BunSqliteKeyValue(dbPath, {encryptionKey: "secret"})
+    }).toThrowError(ENCRYPTION_KEY_ERROR_LABEL)
+})
+
+
+test("Namespace option", async () => {
+    const namespaceDbPath = join(dbDir, "namespaces.sqlite")
+    const tenantA: BunSqliteKeyValue = new BunSqliteKeyValue(namespaceDbPath, {namespace: "tenantA"})
+    const tenantB: BunSqliteKeyValue = new BunSqliteKeyValue(namespaceDbPath, {namespace: "tenantB"})
+    tenantA.set(KEY_1, STRING_VALUE_1)
+    tenantB.set(KEY_1, STRING_VALUE_2)
+    tenantA.close()
+    tenantB.close()
+
+    const store: BunSqliteKeyValue = new BunSqliteKeyValue(namespaceDbPath)
+    expect(store.getCount()).toEqual(0)
+    expect(store.namespace("tenantA").get(KEY_1)).toEqual(STRING_VALUE_1)
+    expect(store.namespace("tenantB").get(KEY_1)).toEqual(STRING_VALUE_2)
+    store.close()
+})
+
+test("Versions across connections", async () => {
+    const versionsDbPath = join(dbDir, "versions.sqlite")
+    const store1: BunSqliteKeyValue = new BunSqliteKeyValue(versionsDbPath)
+    const store2: BunSqliteKeyValue = new BunSqliteKeyValue(versionsDbPath)
+
+    store1.set(KEY_1, STRING_VALUE_1)
+    const watchedKeys = store1.watchKeys([KEY_1])
+    const version = store1.getVersion(KEY_1)!
+    store2.set(KEY_1, STRING_VALUE_2)
+
+    expect(store1.setIfVersion(KEY_1, STRING_VALUE_1, version)).toBeFalse()
+    expect(() => {
+        store1.transaction((tx) => tx.delete(KEY_1), watchedKeys)
+    }).toThrowError(KEY_CHANGED_ERROR_LABEL)
+    expect(store1.get(KEY_1)).toEqual(STRING_VALUE_2)
+
+    store1.close()
+    store2.close()
+})
+
+
+test("Secondary indexes after reopening", async () => {
+    const indexesDbPath = join(dbDir, "indexes.sqlite")
+    const store1: BunSqliteKeyValue = new BunSqliteKeyValue(indexesDbPath)
+    store1.createIndex("status", "status")
+    store1.createIndex("age", (user: {age: number}) => user.age)
+    store1.set("user:1", {status: "active", age: 31})
+    store1.close()
+
+    // Field path indexes are loaded, indexes with extractor functions must be created again
+    const store2: BunSqliteKeyValue = new BunSqliteKeyValue(indexesDbPath)
+    store2.set("user:1", {status: "active", age: 32})
+    store2.set("user:2", {status: "active", age: 18})
+    expect(store2.findByIndex("status", "active")?.map(({key}) => key)).toEqual(["user:1", "user:2"])
+    expect(() => {
+        store2.findByIndex("age", 18)
+    }).toThrowError(INDEX_ERROR_LABEL)
+    store2.close()
+
+    // Items were written without the extractor function
+    const store3: BunSqliteKeyValue = new BunSqliteKeyValue(indexesDbPath)
+    store3.createIndex("age", (user: {age: number}) => user.age)
+    expect(store3.findByIndex("age", {gte: 18})?.map(({key}) => key)).toEqual(["user:2", "user:1"])
+    const store4: BunSqliteKeyValue = new BunSqliteKeyValue(indexesDbPath)
+    store4.set("user:3", {status: "inactive", age: 45})
+    expect(() => {
+        store3.findByIndex("age", 45)
+    }).toThrowError(INDEX_ERROR_LABEL)
+    // The index is only marked once (changes: replaced item, deleted and added "status" index entry)
+    const getTotalChanges = () => (store4.db.query("SELECT total_changes() AS count").get() as {count: number}).count
+    const totalChanges = getTotalChanges()
+    store4.set("user:3", {status: "inactive", age: 45})
+    expect(getTotalChanges() - totalChanges).toEqual(3)
+    store3.createIndex("age", (user: {age: number}) => user.age)
+    expect(store3.findByIndex("age", 45)?.map(({key}) => key)).toEqual(["user:3"])
+
+    // Dropped indexes are not loaded again (or recreated by writes of instances which know them)
+    store3.dropIndex("status")
+    store3.dropIndex("age")
+    store4.set("user:3", {status: "inactive", age: 47})
+    expect(store3.db.query("SELECT name FROM settings WHERE name GLOB 'index:*'").all()).toEqual([])
+    store3.close()
+    store4.close()
+    const store5: BunSqliteKeyValue = new BunSqliteKeyValue(indexesDbPath)
+    store5.set("user:4", {status: "active", age: 50})
+    expect(store5.findByIndex("status", "active")).toBeUndefined()
+    store5.close()
+})
+
+
 afterAll(async () => {
     // Remove all
     const glob = new Bun.Glob("*")
@@ -1,7 +1,7 @@
 import { expect, test } from "bun:test"
-import { BunSqliteKeyValue, INDEX_OUT_OF_RANGE_ERROR_LABEL, INVALID_COUNT_ERROR_LABEL, ITEM_NOT_EXISTS_ERROR_LABEL, NO_ARRAY_ERROR_LABEL } from "../src"
+import { BunSqliteKeyValue, INDEX_OUT_OF_RANGE_ERROR_LABEL, INVALID_COUNT_ERROR_LABEL, ITEM_NOT_EXISTS_ERROR_LABEL, NO_ARRAY_ERROR_LABEL, NO_MAP_ERROR_LABEL, NO_SET_ERROR_LABEL, NO_SORTED_SET_ERROR_LABEL, SERIALIZER_MISMATCH_ERROR_LABEL, ENCRYPTION_KEY_ERROR_LABEL, QUERY_NOT_SUPPORTED_ERROR_LABEL, KEY_CHANGED_ERROR_LABEL, SET_NOT_SUPPORTED_ERROR_LABEL, INDEX_ERROR_LABEL, INVALID_SCORE_ERROR_LABEL } from "../src"
 import { Statement } from "bun:sqlite"
-import type { Item } from "../src/interfaces.ts"
+import type { Item, KeyEvent } from "../src/interfaces.ts"
 
 const KEY_1: string = "test-key-1"
 const KEY_2: string = "test-key-2"
@@ -20,6 +20,9 @@ const TAG_3: string = "test-tag-3"
 test("Error labels", () => {
     expect(INVALID_COUNT_ERROR_LABEL).toEqual("[INVALID_COUNT_ERROR]")
     expect(NO_ARRAY_ERROR_LABEL).toEqual("[NO_ARRAY_ERROR]")
+    expect(NO_MAP_ERROR_LABEL).toEqual("[NO_MAP_ERROR]")
+    expect(NO_SET_ERROR_LABEL).toEqual("[NO_SET_ERROR]")
+    expect(NO_SORTED_SET_ERROR_LABEL).toEqual("[NO_SORTED_SET_ERROR]")
 })
 
 
@@ -679,6 +682,60 @@ test("getTtl()", async () => {
 })
 
 
+test("expireAt(), persist(), getExpiresAt()", async () => {
+    const store = new BunSqliteKeyValue()
+    const expiresAt = Date.now() + 60000
+
+    store.set(KEY_1, VALUE_1)
+    expect(store.getExpiresAt(KEY_1)).toBeUndefined()
+    expect(store.expireAt(KEY_1, new Date(expiresAt))).toBeTrue()
+    expect(store.getExpiresAt(KEY_1)).toEqual(expiresAt)
+    expect(store.expireAt(KEY_2, expiresAt)).toBeFalse()
+    expect(store.has(KEY_2)).toBeFalse()
+
+    expect(store.persist(KEY_1)).toBeTrue()
+    expect(store.getExpiresAt(KEY_1)).toBeUndefined()
+    expect(store.persist(KEY_1)).toBeFalse()
+    expect(store.persist(KEY_2)).toBeFalse()
+
+    // Expiration time in the past
+    store.expireAt(KEY_1, Date.now() - 1)
+    expect(store.get(KEY_1)).toBeUndefined()
+})
+
+
+test("set(), hSet(), incr() with expiresAt and keepTtl", async () => {
+    const store = new BunSqliteKeyValue(undefined, {ttlMs: 30000})
+    const expiresAt = Date.now() + 60000
+
+    store.set(KEY_1, VALUE_1, {expiresAt})
+    expect(store.getExpiresAt(KEY_1)).toEqual(expiresAt)
+    store.set(KEY_1, VALUE_2, {keepTtl: true})
+    expect(store.getExpiresAt(KEY_1)).toEqual(expiresAt)
+    expect(store.get(KEY_1)).toEqual(VALUE_2)
+    // Without keepTtl, the default TTL is used
+    store.set(KEY_1, VALUE_3)
+    expect(store.getExpiresAt(KEY_1)).toBeLessThan(expiresAt)
+
+    // Items without expiration time keep it
+    store.set(KEY_2, VALUE_1, 0)
+    store.set(KEY_2, VALUE_2, {keepTtl: true})
+    expect(store.getExpiresAt(KEY_2)).toBeUndefined()
+
+    // Not existing items use `ttlMs` or `expiresAt`
+    store.set(KEY_3, VALUE_1, {keepTtl: true, expiresAt})
+    expect(store.getExpiresAt(KEY_3)).toEqual(expiresAt)
+
+    store.hSet("hash", FIELD_1, VALUE_1, {expiresAt: new Date(expiresAt)})
+    store.hSet("hash", FIELD_2, VALUE_2, {keepTtl: true})
+    expect(store.getExpiresAt("hash")).toEqual(expiresAt)
+
+    store.incr("counter", 1, {expiresAt})
+    expect(store.incr("counter", 1, {keepTtl: true})).toEqual(2)
+    expect(store.getExpiresAt("counter")).toEqual(expiresAt)
+})
+
+
 test("hSet(), hGet()", async () => {
     const store = new BunSqliteKeyValue()
 
@@ -802,6 +859,51 @@ test("hIncr(), hDecr()", async () => {
 })
 
 
+test("Hash fields are stored in separate rows", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.hmSet(KEY_1, {[FIELD_1]: VALUE_1, [FIELD_2]: VALUE_2})
+    expect(store.db.query("SELECT COUNT(*) AS count FROM hash_fields").get()).toEqual({count: 2})
+    expect(store.get<Map<string, string>>(KEY_1)).toEqual(new Map([[FIELD_1, VALUE_1], [FIELD_2, VALUE_2]]))
+    expect(store.getItems()).toEqual([{key: KEY_1, value: new Map([[FIELD_1, VALUE_1], [FIELD_2, VALUE_2]])}])
+
+    // Rename and delete
+    store.rename(KEY_1, KEY_2)
+    expect(store.hGet<string>(KEY_2, FIELD_1)).toEqual(VALUE_1)
+    store.delete(KEY_2)
+    expect(store.db.query("SELECT COUNT(*) AS count FROM hash_fields").get()).toEqual({count: 0})
+
+    // Overwrite hash with a value
+    store.hSet(KEY_1, FIELD_1, VALUE_1)
+    store.set(KEY_1, VALUE_2)
+    expect(store.hGet(KEY_1, FIELD_1)).toBeUndefined()
+    expect(() => {
+        store.hSet(KEY_1, FIELD_1, VALUE_1)
+    }).toThrowError(NO_MAP_ERROR_LABEL)
+})
+
+
+test("Hashes stored as Map object", async () => {
+    const store = new BunSqliteKeyValue()
+
+    // Hashes of older versions are stored as serialized Map object
+    store.set(KEY_1, new Map([[FIELD_1, VALUE_1], [FIELD_2, VALUE_2]]), 1000)
+    expect(store.hGet<string>(KEY_1, FIELD_1)).toEqual(VALUE_1)
+    expect(store.hmGet<string>(KEY_1, [FIELD_2, FIELD_3])).toEqual({[FIELD_2]: VALUE_2, [FIELD_3]: undefined})
+    expect(store.hHasField(KEY_1, FIELD_3)).toBeFalse()
+    expect(store.hGetCount(KEY_1)).toEqual(2)
+    expect(store.hGetFields(KEY_1)).toEqual([FIELD_1, FIELD_2])
+    expect(store.hGetValues(KEY_1)).toEqual([VALUE_1, VALUE_2])
+
+    // Migrated on write
+    expect(store.hDelete(KEY_1, FIELD_1)).toBeTrue()
+    expect(store.db.query("SELECT COUNT(*) AS count FROM hash_fields").get()).toEqual({count: 1})
+    expect(store.getTtl(KEY_1)).toBeGreaterThan(0)
+    expect(store.hSet(KEY_1, FIELD_3, VALUE_3)).toBeTrue()
+    expect(store.get<Map<string, string>>(KEY_1)).toEqual(new Map([[FIELD_2, VALUE_2], [FIELD_3, VALUE_3]]))
+})
+
+
 test("lPush(), rPush()", async () => {
     const store = new BunSqliteKeyValue()
 
@@ -873,6 +975,239 @@ test("lIndex()", async () => {
 })
 
 
+test("lRange()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.rPush(KEY_1, "a", "b", "c", "d")
+    expect(store.lRange(KEY_1)).toEqual(["a", "b", "c", "d"])
+    expect(store.lRange(KEY_1, 1, 2)).toEqual(["b", "c"])
+    expect(store.lRange(KEY_1, -3, -2)).toEqual(["b", "c"])
+    expect(store.lRange(KEY_1, 2, 100)).toEqual(["c", "d"])
+    expect(store.lRange(KEY_1, 3, 1)).toEqual([])
+    expect(store.lRange(KEY_2)).toEqual([])
+
+    // Array value
+    store.set(KEY_2, ["a", "b", "c"])
+    expect(store.lRange(KEY_2, 0, -2)).toEqual(["a", "b"])
+
+    store.set(KEY_3, VALUE_3)
+    expect(() => {
+        store.lRange(KEY_3)
+    }).toThrowError(NO_ARRAY_ERROR_LABEL)
+})
+
+
+test("lTrim()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.rPush(KEY_1, "a", "b", "c", "d", "e")
+    store.lTrim(KEY_1, 1, -2)
+    expect(store.lRange(KEY_1)).toEqual(["b", "c", "d"])
+    store.lTrim(KEY_1, 0, 100)
+    expect(store.lRange(KEY_1)).toEqual(["b", "c", "d"])
+    store.lTrim(KEY_1, 2, 1)
+    expect(store.lLen(KEY_1)).toEqual(0)
+
+    // Capped list
+    for (const index of Array(10).keys()) {
+        store.lPush(KEY_2, index)
+        store.lTrim(KEY_2, 0, 2)
+    }
+    expect(store.lRange(KEY_2)).toEqual([9, 8, 7])
+})
+
+
+test("lRem()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.rPush(KEY_1, "a", "x", "b", "x", "c", "x")
+    expect(store.lRem(KEY_1, 1, "x")).toEqual(1)
+    expect(store.lRange(KEY_1)).toEqual(["a", "b", "x", "c", "x"])
+    expect(store.lRem(KEY_1, -1, "x")).toEqual(1)
+    expect(store.lRange(KEY_1)).toEqual(["a", "b", "x", "c"])
+    expect(store.lRem(KEY_1, 0, "x")).toEqual(1)
+    expect(store.lRem(KEY_1, 0, "x")).toEqual(0)
+    expect(store.lRange(KEY_1)).toEqual(["a", "b", "c"])
+    expect(store.lIndex(KEY_1, 2)).toEqual("c")
+    expect(store.rPush(KEY_1, "d")).toEqual(4)
+    expect(store.lRem(KEY_2, 0, "x")).toEqual(0)
+
+    // Objects
+    store.rPush(KEY_3, {id: 1}, {id: 2})
+    expect(store.lRem(KEY_3, 0, {id: 1})).toEqual(1)
+    expect(store.lRange(KEY_3)).toEqual([{id: 2}])
+})
+
+
+test("lInsert()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.rPush(KEY_1, "a", "b", "c")
+    expect(store.lInsert(KEY_1, "BEFORE", "a", "1")).toEqual(4)
+    expect(store.lInsert(KEY_1, "AFTER", "c", "2")).toEqual(5)
+    expect(store.lInsert(KEY_1, "BEFORE", "c", "3")).toEqual(6)
+    expect(store.lInsert(KEY_1, "AFTER", "a", "4")).toEqual(7)
+    expect(store.lRange(KEY_1)).toEqual(["1", "a", "4", "b", "3", "c", "2"])
+    expect(store.lIndex(KEY_1, -1)).toEqual("2")
+    expect(store.lInsert(KEY_1, "BEFORE", "x", "5")).toEqual(-1)
+    expect(store.lInsert(KEY_2, "BEFORE", "a", "5")).toEqual(0)
+    expect(store.has(KEY_2)).toBeFalse()
+})
+
+
+test("lPos()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.rPush(KEY_1, "a", "b", "c", "1", "2", "3", "c", "c")
+    expect(store.lPos(KEY_1, "c")).toEqual(2)
+    expect(store.lPos(KEY_1, "x")).toBeUndefined()
+    expect(store.lPos(KEY_1, "c", {rank: 2})).toEqual(6)
+    expect(store.lPos(KEY_1, "c", {rank: -1})).toEqual(7)
+    expect(store.lPos(KEY_1, "c", {count: 2})).toEqual([2, 6])
+    expect(store.lPos(KEY_1, "c", {count: 0})).toEqual([2, 6, 7])
+    expect(store.lPos(KEY_1, "c", {rank: -1, count: 2})).toEqual([7, 6])
+    expect(store.lPos(KEY_1, "c", {count: 0, maxLen: 7})).toEqual([2, 6])
+    expect(store.lPos(KEY_2, "c", {count: 0})).toEqual([])
+
+    // Long lists are read in pages
+    const numbers = Array.from({length: 250}, (_, index) => index % 120)
+    store.rPush(KEY_3, ...numbers)
+    expect(store.lPos(KEY_3, 5, {count: 0})).toEqual([5, 125, 245])
+    expect(store.lPos(KEY_3, 5, {rank: -1, count: 0})).toEqual([245, 125, 5])
+    expect(store.lPos(KEY_3, 110, {rank: -2})).toEqual(110)
+    expect(store.lPos(KEY_3, 110, {rank: -1, maxLen: 10})).toBeUndefined()
+    expect(store.lRem(KEY_3, -2, 5)).toEqual(2)
+    expect(store.lPos(KEY_3, 5, {count: 0})).toEqual([5])
+    expect(store.lIndex(KEY_3, -1)).toEqual(9)
+    expect(store.lLen(KEY_3)).toEqual(248)
+    expect(() => {
+        store.lPos(KEY_1, "c", {rank: 0})
+    }).toThrowError(INVALID_COUNT_ERROR_LABEL)
+})
+
+
+test("lMove(), rPopLPush()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.rPush(KEY_1, "a", "b", "c")
+    expect(store.rPopLPush<string>(KEY_1, KEY_2)).toEqual("c")
+    expect(store.lMove<string>(KEY_1, KEY_2, "LEFT", "RIGHT")).toEqual("a")
+    expect(store.lRange(KEY_1)).toEqual(["b"])
+    expect(store.lRange(KEY_2)).toEqual(["c", "a"])
+
+    // Rotate
+    expect(store.lMove<string>(KEY_2, KEY_2, "LEFT", "RIGHT")).toEqual("c")
+    expect(store.lRange(KEY_2)).toEqual(["a", "c"])
+
+    // Empty or missing source
+    store.lPop(KEY_1)
+    expect(store.rPopLPush(KEY_1, KEY_2)).toBeUndefined()
+    expect(store.rPopLPush(KEY_3, KEY_2)).toBeUndefined()
+
+    // Destination is not an array
+    store.set(KEY_3, VALUE_3)
+    expect(() => {
+        store.rPopLPush(KEY_2, KEY_3)
+    }).toThrowError(NO_ARRAY_ERROR_LABEL)
+    expect(store.lRange(KEY_2)).toEqual(["a", "c"])
+})
+
+
+test("bLPop(), bRPop()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    // Element already exists
+    store.rPush(KEY_1, VALUE_1, VALUE_2)
+    expect(await store.bLPop<string>(KEY_1)).toEqual({key: KEY_1, value: VALUE_1})
+    expect(await store.brPop<string>([KEY_2, KEY_1])).toEqual({key: KEY_1, value: VALUE_2})
+
+    // Timeout
+    expect(await store.bLPop(KEY_1, 20)).toBeUndefined()
+
+    // Element is pushed later
+    setTimeout(() => store.lPush(KEY_2, VALUE_3), 10)
+    expect(await store.blPop<string>([KEY_1, KEY_2], 1000)).toEqual({key: KEY_2, value: VALUE_3})
+    setTimeout(() => store.rPush(KEY_1, VALUE_1), 10)
+    expect(await store.bRPop<string>(KEY_1)).toEqual({key: KEY_1, value: VALUE_1})
+})
+
+
+test("Blocking pop with element pushed by a store of the same connection", async () => {
+    const store = new BunSqliteKeyValue()
+    const consumer = store.namespace("jobs")
+    const producer = store.namespace("jobs")
+
+    // Commits of the same connection don't change the data version,
+    // so the push must wake up the waiting pop directly.
+    const startTime = Date.now()
+    setTimeout(() => producer.rPush(KEY_1, VALUE_1), 10)
+    expect(await consumer.bLPop<string>(KEY_1, 1000)).toEqual({key: KEY_1, value: VALUE_1})
+    setTimeout(() => new BunSqliteKeyValue(store.db).lPush(KEY_2, VALUE_2), 10)
+    expect(await store.bRPop<string>(KEY_2, 1000)).toEqual({key: KEY_2, value: VALUE_2})
+    expect(Date.now() - startTime).toBeLessThan(500)
+
+    // Closing the connection finishes the waiting pops of all stores of the connection
+    const results = [store.bLPop(KEY_3), consumer.bLPop(KEY_3), producer.bRPop(KEY_3)]
+    store.close()
+    expect(await Promise.all(results)).toEqual([undefined, undefined, undefined])
+})
+
+
+test("bLMove()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    setTimeout(() => store.rPush(KEY_1, VALUE_1), 10)
+    expect(await store.bLMove<string>(KEY_1, KEY_2, "LEFT", "RIGHT", 1000)).toEqual(VALUE_1)
+    expect(store.lRange(KEY_2)).toEqual([VALUE_1])
+    expect(await store.bLMove(KEY_1, KEY_2, "LEFT", "RIGHT", 20)).toBeUndefined()
+
+    // Waiting pops are finished when the database is closed
+    const result = store.bLPop(KEY_1)
+    store.close()
+    expect(await result).toBeUndefined()
+})
+
+
+test("List elements are stored in separate rows", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.rPush(KEY_1, VALUE_1, VALUE_2)
+    store.lPush(KEY_1, VALUE_3)
+    expect(store.db.query("SELECT COUNT(*) AS count FROM list_elements").get()).toEqual({count: 3})
+    expect(store.get<Array<string>>(KEY_1)).toEqual([VALUE_3, VALUE_1, VALUE_2])
+    expect(store.lIndex<string>(KEY_1, 1)).toEqual(VALUE_1)
+    expect(store.lIndex<string>(KEY_1, -3)).toEqual(VALUE_3)
+    expect(store.lIndex(KEY_1, -4)).toBeUndefined()
+
+    // Empty list
+    store.lPop(KEY_1, 3)
+    expect(store.lLen(KEY_1)).toEqual(0)
+    expect(store.get<Array<string>>(KEY_1)).toEqual([])
+    expect(store.lPop(KEY_1)).toBeUndefined()
+
+    // Delete
+    store.rPush(KEY_1, VALUE_1)
+    store.delete(KEY_1)
+    expect(store.db.query("SELECT COUNT(*) AS count FROM list_elements").get()).toEqual({count: 0})
+})
+
+
+test("Lists stored as array", async () => {
+    const store = new BunSqliteKeyValue()
+
+    // Lists of older versions are stored as serialized array
+    store.set(KEY_1, [VALUE_1, VALUE_2])
+    expect(store.lIndex<string>(KEY_1, -1)).toEqual(VALUE_2)
+    expect(store.lLen(KEY_1)).toEqual(2)
+
+    // Migrated on write
+    expect(store.rPush(KEY_1, VALUE_3)).toEqual(3)
+    expect(store.db.query("SELECT COUNT(*) AS count FROM list_elements").get()).toEqual({count: 3})
+    expect(store.lPop<string>(KEY_1)).toEqual(VALUE_1)
+    expect(store.get<Array<string>>(KEY_1)).toEqual([VALUE_2, VALUE_3])
+})
+
+
 test("UUID as key", async () => {
     const store = new BunSqliteKeyValue()
 
@@ -1036,3 +1371,1433 @@ test("lSet()", async () => {
     }).toThrowError(ITEM_NOT_EXISTS_ERROR_LABEL)
 
 })
+
+
+test("sAdd(), sRem(), sCard()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    expect(store.sAdd(KEY_1, VALUE_1, VALUE_2)).toEqual(2)
+    expect(store.sAdd(KEY_1, VALUE_2, VALUE_3)).toEqual(1)
+    expect(store.get<Set<string>>(KEY_1)).toEqual(new Set([VALUE_1, VALUE_2, VALUE_3]))
+    expect(store.sCard(KEY_1)).toEqual(3)
+    expect(store.sCard(KEY_2)).toEqual(0)
+
+    expect(store.sRem(KEY_1, VALUE_1, "not-a-member")).toEqual(1)
+    expect(store.sRem(KEY_2, VALUE_1)).toEqual(0)
+    expect(store.sCard(KEY_1)).toEqual(2)
+
+    // No members: Nothing is written
+    expect(store.sAdd(KEY_2)).toEqual(0)
+    expect(store.has(KEY_2)).toBeFalse()
+
+    // Empty sets are deleted
+    expect(store.sRem(KEY_1, VALUE_2, VALUE_3)).toEqual(2)
+    expect(store.has(KEY_1)).toBeFalse()
+
+    // Not a set
+    store.set(KEY_3, VALUE_3)
+    expect(() => {
+        store.sAdd(KEY_3, VALUE_1)
+    }).toThrowError(NO_SET_ERROR_LABEL)
+    expect(() => {
+        store.sCard(KEY_3)
+    }).toThrowError(NO_SET_ERROR_LABEL)
+})
+
+
+test("Set with TTL and tags", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.set(KEY_1, new Set([VALUE_1]), 10000)
+    store.addTag(KEY_1, TAG_1)
+    const expires = store.getExpiresAt(KEY_1)
+    store.sAdd(KEY_1, VALUE_2)
+    store.sRem(KEY_1, VALUE_1)
+    store.sMove(KEY_2, KEY_1, VALUE_3)
+    store.sUnionStore(KEY_1, KEY_1, KEY_3)
+    expect(store.sMembers(KEY_1)).toEqual(new Set([VALUE_2]))
+    expect(store.getTaggedKeys(TAG_1)).toEqual([KEY_1])
+    expect(store.getExpiresAt(KEY_1)).toEqual(expires)
+    expect(store.getVersion(KEY_1)).toEqual(4)
+})
+
+
+test("sIsMember(), sMembers()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.sAdd(KEY_1, VALUE_1, VALUE_2)
+    expect(store.sIsMember(KEY_1, VALUE_1)).toBeTrue()
+    expect(store.sIsMember(KEY_1, VALUE_3)).toBeFalse()
+    expect(store.sIsMember(KEY_2, VALUE_1)).toBeFalse()
+    expect(store.sMembers<string>(KEY_1)).toEqual(new Set([VALUE_1, VALUE_2]))
+    expect(store.sMembers(KEY_2)).toBeUndefined()
+})
+
+
+test("sMove()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.sAdd(KEY_1, VALUE_1, VALUE_2)
+    expect(store.sMove(KEY_1, KEY_2, VALUE_1)).toBeTrue()
+    expect(store.sMove(KEY_1, KEY_2, VALUE_3)).toBeFalse()
+    expect(store.sMove(KEY_3, KEY_2, VALUE_1)).toBeFalse()
+    expect(store.sMembers<string>(KEY_1)).toEqual(new Set([VALUE_2]))
+    expect(store.sMembers<string>(KEY_2)).toEqual(new Set([VALUE_1]))
+
+    // Destination is not a set
+    store.set(KEY_3, VALUE_3)
+    expect(() => {
+        store.sMove(KEY_1, KEY_3, VALUE_2)
+    }).toThrowError(NO_SET_ERROR_LABEL)
+    expect(store.sIsMember(KEY_1, VALUE_2)).toBeTrue()
+
+    // Empty source sets are deleted
+    expect(store.sMove(KEY_1, KEY_2, VALUE_2)).toBeTrue()
+    expect(store.has(KEY_1)).toBeFalse()
+})
+
+
+test("sPop(), sRandMember()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    const members = [VALUE_1, VALUE_2, VALUE_3]
+    store.sAdd(KEY_1, ...members)
+
+    // sRandMember()
+    expect(members).toContain(store.sRandMember<string>(KEY_1) as string)
+    expect(store.sRandMember<string>(KEY_1, 2)).toBeArrayOfSize(2)
+    expect(store.sRandMember<string>(KEY_1, 100)).toBeArrayOfSize(3)
+    expect(store.sRandMember(KEY_2)).toBeUndefined()
+    expect(() => {
+        store.sRandMember(KEY_1, 0)
+    }).toThrowError(INVALID_COUNT_ERROR_LABEL)
+    expect(store.sCard(KEY_1)).toEqual(3)
+
+    // sPop()
+    const member = store.sPop<string>(KEY_1) as string
+    expect(members).toContain(member)
+    expect(store.sIsMember(KEY_1, member)).toBeFalse()
+    expect(store.sPop<string>(KEY_1, 5)).toBeArrayOfSize(2)
+    expect(store.sCard(KEY_1)).toEqual(0)
+    expect(store.has(KEY_1)).toBeFalse()
+    expect(store.sPop(KEY_1)).toBeUndefined()
+    expect(store.sPop(KEY_2)).toBeUndefined()
+    expect(() => {
+        store.sPop(KEY_1, -1)
+    }).toThrowError(INVALID_COUNT_ERROR_LABEL)
+})
+
+
+test("Sets with string and raw serializer", async () => {
+    for (const serializer of ["string", "raw"] as const) {
+        const store = new BunSqliteKeyValue(undefined, {serializer})
+        expect(() => store.sAdd(KEY_1, VALUE_1)).toThrowError(SET_NOT_SUPPORTED_ERROR_LABEL)
+        expect(() => store.sMembers(KEY_1)).toThrowError(SET_NOT_SUPPORTED_ERROR_LABEL)
+        expect(store.has(KEY_1)).toBeFalse()
+    }
+})
+
+
+test("sInter(), sUnion(), sDiff()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.sAdd(KEY_1, "a", "b", "c", "d")
+    store.sAdd(KEY_2, "c")
+    store.sAdd(KEY_3, "a", "c", "e")
+
+    expect(store.sInter(KEY_1, KEY_2, KEY_3)).toEqual(new Set(["c"]))
+    expect(store.sInter(KEY_1, "not-existing")).toEqual(new Set())
+    expect(store.sUnion(KEY_1, KEY_2, KEY_3)).toEqual(new Set(["a", "b", "c", "d", "e"]))
+    expect(store.sDiff(KEY_1, KEY_2, KEY_3)).toEqual(new Set(["b", "d"]))
+    expect(store.sDiff("not-existing", KEY_1)).toEqual(new Set())
+
+    store.set("no-set", VALUE_1)
+    expect(() => {
+        store.sUnion(KEY_1, "no-set")
+    }).toThrowError(NO_SET_ERROR_LABEL)
+})
+
+
+test("sInterStore(), sUnionStore(), sDiffStore()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.sAdd(KEY_1, "a", "b", "c")
+    store.sAdd(KEY_2, "b", "c", "d")
+
+    expect(store.sInterStore("inter", KEY_1, KEY_2)).toEqual(2)
+    expect(store.sMembers("inter")).toEqual(new Set(["b", "c"]))
+    expect(store.sUnionStore("union", KEY_1, KEY_2)).toEqual(4)
+    expect(store.sMembers("union")).toEqual(new Set(["a", "b", "c", "d"]))
+    expect(store.sDiffStore("diff", KEY_1, KEY_2)).toEqual(1)
+    expect(store.sMembers("diff")).toEqual(new Set(["a"]))
+
+    // Empty result deletes the destination
+    store.set(KEY_3, VALUE_3)
+    expect(store.sInterStore(KEY_3, KEY_1, "not-existing")).toEqual(0)
+    expect(store.has(KEY_3)).toBeFalse()
+})
+
+
+test("zAdd(), zRem(), zScore(), zCard()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    expect(store.zAdd(KEY_1, {"a": 1, "b": 2})).toEqual(2)
+    expect(store.zAdd(KEY_1, {"b": 3, "c": 4})).toEqual(1)
+    expect(store.zScore(KEY_1, "b")).toEqual(3)
+    expect(store.zScore(KEY_1, "x")).toBeUndefined()
+    expect(store.zScore(KEY_2, "a")).toBeUndefined()
+    expect(store.zCard(KEY_1)).toEqual(3)
+    expect(store.zCard(KEY_2)).toEqual(0)
+    expect(store.get(KEY_1)).toEqual(new Map([["a", 1], ["b", 3], ["c", 4]]))
+
+    expect(store.zRem(KEY_1, "a", "x")).toEqual(1)
+    expect(store.zRem(KEY_2, "a")).toEqual(0)
+    expect(store.zCard(KEY_1)).toEqual(2)
+
+    // Not a sorted set
+    store.set(KEY_3, VALUE_3)
+    expect(() => {
+        store.zAdd(KEY_3, {"a": 1})
+    }).toThrowError(NO_SORTED_SET_ERROR_LABEL)
+    expect(() => {
+        store.zCard(KEY_3)
+    }).toThrowError(NO_SORTED_SET_ERROR_LABEL)
+
+    // Invalid scores
+    expect(() => {
+        store.zAdd("scores", {"a": 1, "b": NaN})
+    }).toThrowError(INVALID_SCORE_ERROR_LABEL)
+    expect(store.has("scores")).toBeFalse()
+    expect(store.zAdd("scores", {"min": -Infinity, "max": Infinity})).toEqual(2)
+    expect(store.zScore("scores", "min")).toEqual(-Infinity)
+    expect(store.zScore("scores", "max")).toEqual(Infinity)
+})
+
+
+test("zIncrBy(), zRank(), zRevRank()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    expect(store.zIncrBy(KEY_1, "a", 5)).toEqual(5)
+    expect(store.zIncrBy(KEY_1, "a")).toEqual(6)
+    store.zAdd(KEY_1, {"b": 1, "c": 6, "d": 10})
+
+    expect(store.zRank(KEY_1, "b")).toEqual(0)
+    expect(store.zRank(KEY_1, "a")).toEqual(1)
+    expect(store.zRank(KEY_1, "c")).toEqual(2)
+    expect(store.zRank(KEY_1, "x")).toBeUndefined()
+    expect(store.zRevRank(KEY_1, "d")).toEqual(0)
+    expect(store.zRevRank(KEY_1, "b")).toEqual(3)
+
+    // Invalid scores
+    expect(() => {
+        store.zIncrBy(KEY_1, "a", NaN)
+    }).toThrowError(INVALID_SCORE_ERROR_LABEL)
+    store.zIncrBy(KEY_1, "e", Infinity)
+    expect(() => {
+        store.zIncrBy(KEY_1, "e", -Infinity)
+    }).toThrowError(INVALID_SCORE_ERROR_LABEL)
+    expect(store.zScore(KEY_1, "e")).toEqual(Infinity)
+})
+
+
+test("zRange(), zRevRange(), zRangeByScore()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.zAdd(KEY_1, {"a": 1, "b": 2, "c": 3, "d": 4})
+
+    expect(store.zRange(KEY_1).map(({member}) => member)).toEqual(["a", "b", "c", "d"])
+    expect(store.zRange(KEY_1, 1, 2)).toEqual([{member: "b", score: 2}, {member: "c", score: 3}])
+    expect(store.zRange(KEY_1, -2, -1).map(({member}) => member)).toEqual(["c", "d"])
+    expect(store.zRange(KEY_1, 3, 1)).toEqual([])
+    expect(store.zRange(KEY_2)).toEqual([])
+    expect(store.zRevRange(KEY_1, 0, 1).map(({member}) => member)).toEqual(["d", "c"])
+
+    expect(store.zRangeByScore(KEY_1, 2, 3).map(({member}) => member)).toEqual(["b", "c"])
+    expect(store.zRangeByScore(KEY_1, -Infinity, Infinity)).toHaveLength(4)
+    expect(store.zRangeByScore(KEY_1, 2, Infinity, {offset: 1, count: 1})).toEqual([{member: "c", score: 3}])
+})
+
+
+test("zPopMin(), zPopMax()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.zAdd(KEY_1, {"a": 1, "b": 2, "c": 3, "d": 4})
+
+    expect(store.zPopMin(KEY_1)).toEqual({member: "a", score: 1})
+    expect(store.zPopMax(KEY_1, 2)).toEqual([{member: "d", score: 4}, {member: "c", score: 3}])
+    expect(store.zCard(KEY_1)).toEqual(1)
+    expect(store.zPopMin(KEY_1, 5)).toEqual([{member: "b", score: 2}])
+    expect(store.zPopMin(KEY_1)).toBeUndefined()
+    expect(store.zPopMax(KEY_2)).toBeUndefined()
+    expect(() => {
+        store.zPopMin(KEY_1, 0)
+    }).toThrowError(INVALID_COUNT_ERROR_LABEL)
+})
+
+
+test("Sorted set with TTL and tags", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.zAdd(KEY_1, {"a": 1}, 30)
+    store.addTag(KEY_1, TAG_1)
+    expect(store.getTaggedKeys(TAG_1)).toEqual([KEY_1])
+    await Bun.sleep(40)
+    expect(store.zCard(KEY_1)).toEqual(0)
+    expect(store.db.query("SELECT COUNT(*) AS count FROM zset_members").get()).toEqual({count: 0})
+    expect(store.getTaggedKeys(TAG_1)).toBeUndefined()
+})
+
+
+test("on(), off()", async () => {
+    const store = new BunSqliteKeyValue()
+    const events: KeyEvent[] = []
+    const listener = (event: KeyEvent) => events.push(event)
+
+    store.on("set", "user:*", listener)
+    store.on("delete", "*", listener)
+    store.on("rename", "user:*", listener)
+    store.on("tag", "user:?", listener)
+
+    store.set("user:1", VALUE_1)
+    store.set("other", VALUE_2)
+    store.hSet("user:2", FIELD_1, VALUE_1)
+    store.rPush("user:3", VALUE_1)
+    store.lPop("user:3")
+    store.addTag("user:1", TAG_1)
+    store.rename("other", "user:4")
+    store.delete("user:2")
+    store.delete("not-existing")
+    expect(events).toEqual([
+        {type: "set", key: "user:1"},
+        {type: "set", key: "user:2"},
+        {type: "set", key: "user:3"},
+        {type: "set", key: "user:3"},
+        {type: "tag", key: "user:1", tag: TAG_1, tagAction: "add"},
+        {type: "rename", key: "other", newKey: "user:4"},
+        {type: "delete", key: "user:2"},
+    ])
+
+    events.length = 0
+    store.deleteTags("user:1")
+    store.deleteTaggedItems(TAG_1)
+    expect(events).toEqual([
+        {type: "tag", key: "user:1", tag: TAG_1, tagAction: "delete"},
+    ])
+    store.addTag("user:3", TAG_1)
+    store.deleteTaggedItems(TAG_1)
+    store.clear()
+    expect(events).toEqual([
+        {type: "tag", key: "user:1", tag: TAG_1, tagAction: "delete"},
+        {type: "tag", key: "user:3", tag: TAG_1, tagAction: "add"},
+        {type: "delete", key: "user:3"},
+        {type: "delete", key: "user:1"},
+        {type: "delete", key: "user:4"},
+    ])
+
+    events.length = 0
+    store.off("set", "user:*", listener)
+    store.set("user:1", VALUE_1)
+    expect(events).toEqual([])
+})
+
+
+test("on() with transactions and listener errors", async () => {
+    const errors: unknown[] = []
+    const store = new BunSqliteKeyValue(undefined, {onListenerError: (error) => errors.push(error)})
+    const keys: string[] = []
+    store.on("set", "*", ({key}) => keys.push(key))
+
+    // Events are dispatched after the commit
+    store.transaction((tx) => {
+        tx.set(KEY_1, VALUE_1)
+        tx.hSet(KEY_2, FIELD_1, VALUE_1)
+        expect(keys).toEqual([])
+    })
+    expect(keys).toEqual([KEY_1, KEY_2])
+
+    // Rolled back changes don't trigger events
+    keys.length = 0
+    expect(() => store.transaction((tx) => {
+        tx.set(KEY_1, VALUE_2)
+        throw new Error("Rollback")
+    })).toThrow()
+    expect(store.get(KEY_1)).toEqual(VALUE_1)
+    expect(keys).toEqual([])
+
+    // Rolled back savepoints discard only their events
+    store.transaction((tx) => {
+        tx.set(KEY_1, VALUE_2)
+        expect(() => tx.transaction((nestedTx) => {
+            nestedTx.set(KEY_2, VALUE_2)
+            throw new Error("Rollback")
+        })).toThrow()
+    })
+    expect(keys).toEqual([KEY_1])
+
+    // Throwing listeners don't roll back or break the change
+    keys.length = 0
+    store.on("set", "*", () => {
+        throw new Error("Listener error")
+    })
+    store.set(KEY_3, VALUE_3)
+    store.lPush(KEY_3 + "list", VALUE_3)
+    expect(store.get(KEY_3)).toEqual(VALUE_3)
+    expect(store.lLen(KEY_3 + "list")).toEqual(1)
+    expect(keys).toEqual([KEY_3, KEY_3 + "list"])
+    expect(errors).toHaveLength(2)
+
+    // Asynchronous transactions
+    keys.length = 0
+    await store.transactionAsync(async (tx) => {
+        tx.set(KEY_1, VALUE_3)
+        await Bun.sleep(1)
+        expect(keys).toEqual([])
+    })
+    expect(keys).toEqual([KEY_1])
+})
+
+
+test("on() expire", async () => {
+    const store = new BunSqliteKeyValue()
+    const keys: string[] = []
+    store.on("expire", "*", ({key}) => keys.push(key))
+
+    store.set(KEY_1, VALUE_1, 30)
+    store.set(KEY_2, VALUE_2, 30)
+    store.set(KEY_3, VALUE_3)
+    await Bun.sleep(40)
+    expect(store.get(KEY_1)).toBeUndefined()
+    expect(keys).toEqual([KEY_1])
+    store.deleteExpired()
+    expect(keys).toEqual([KEY_1, KEY_2])
+})
+
+
+test("getChanges(), deleteChanges()", async () => {
+    const store = new BunSqliteKeyValue(undefined, {changelog: true})
+
+    store.set(KEY_1, VALUE_1)
+    store.set(KEY_1, VALUE_2)
+    store.rename(KEY_1, KEY_2)
+    store.hSet(KEY_3, FIELD_1, VALUE_1)
+    store.hDelete(KEY_3, FIELD_1)
+    store.delete(KEY_2)
+    const changes = store.getChanges().map(({operation, key}) => [operation, key])
+    expect(changes).toEqual([
+        ["insert", KEY_1],
+        ["update", KEY_1],
+        ["delete", KEY_1],
+        ["insert", KEY_2],
+        ["insert", KEY_3],
+        ["update", KEY_3],
+        ["delete", KEY_2],
+    ])
+    const lastId = store.getLastChangeId()
+    expect(store.getChanges(lastId - 1)).toEqual([
+        expect.objectContaining({id: lastId, operation: "delete", key: KEY_2})
+    ])
+    expect(store.getChanges(0, 2).length).toEqual(2)
+
+    store.deleteChanges(lastId - 1)
+    expect(store.getChanges().length).toEqual(1)
+    store.deleteChanges()
+    expect(store.getChanges()).toEqual([])
+    store.set(KEY_1, VALUE_1)
+    expect(store.getLastChangeId()).toEqual(lastId + 1)
+})
+
+
+test("One changelog entry per write", async () => {
+    const store = new BunSqliteKeyValue(undefined, {changelog: true})
+    const getOperations = () => {
+        const operations = store.getChanges(lastId).map(({operation}) => operation)
+        lastId = store.getLastChangeId()
+        return operations
+    }
+    let lastId = 0
+
+    store.hSet(KEY_1, FIELD_1, VALUE_1)
+    expect(getOperations()).toEqual(["insert"])
+    store.rPush(KEY_2, VALUE_1)
+    expect(getOperations()).toEqual(["insert"])
+    store.zAdd(KEY_3, {a: 1})
+    expect(getOperations()).toEqual(["insert"])
+    expect(store.getVersion(KEY_3)).toEqual(1)
+
+    // Converting a list stored as array
+    store.set(KEY_2, [1])
+    store.rPush(KEY_2, 2)
+    expect(getOperations()).toEqual(["update", "update"])
+    expect(store.lRange(KEY_2)).toEqual([1, 2])
+    store.lPop(KEY_2)
+    expect(getOperations()).toEqual(["update"])
+
+    // Popping from an empty list is not logged
+    store.lPop(KEY_2)
+    store.lPop(KEY_2)
+    expect(getOperations()).toEqual(["update"])
+})
+
+
+test("watch()", async () => {
+    const store = new BunSqliteKeyValue(undefined, {changelog: true})
+
+    store.set(KEY_1, VALUE_1)
+    const changes = store.watch(0)
+    expect((await changes.next()).value).toMatchObject({operation: "insert", key: KEY_1})
+    setTimeout(() => store.delete(KEY_1), 10)
+    expect((await changes.next()).value).toMatchObject({operation: "delete", key: KEY_1})
+    store.close()
+    expect((await changes.next()).done).toBeTrue()
+})
+
+
+test("Changelog disabled", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.set(KEY_1, VALUE_1)
+    expect(store.getChanges()).toEqual([])
+    expect(store.getLastChangeId()).toEqual(0)
+})
+
+
+test("JSON serializer", async () => {
+    const store = new BunSqliteKeyValue(undefined, {serializer: "json"})
+
+    store.set(KEY_1, {text: VALUE_1, numbers: [1, 2], map: new Map([["a", 1]]), set: new Set([1, 2])})
+    expect(store.get(KEY_1)).toEqual({text: VALUE_1, numbers: [1, 2], map: new Map([["a", 1]]), set: new Set([1, 2])})
+    const record = store.db.query("SELECT value FROM items WHERE key = $key").get({key: KEY_1}) as {value: Uint8Array}
+    expect(JSON.parse(new TextDecoder().decode(record.value)).text).toEqual(VALUE_1)
+
+    store.hSet(KEY_2, FIELD_1, {a: 1})
+    expect(store.hGet(KEY_2, FIELD_1)).toEqual({a: 1})
+    store.rPush<number | string>(KEY_3, 1, "two")
+    expect(store.lRange(KEY_3, 0, -1)).toEqual([1, "two"])
+    store.sAdd("set", VALUE_1)
+    expect(store.sMembers("set")).toEqual(new Set([VALUE_1]))
+    expect(store.incr("counter")).toEqual(1)
+})
+
+
+test("String and raw serializer", async () => {
+    const stringStore = new BunSqliteKeyValue(undefined, {serializer: "string"})
+    stringStore.set(KEY_1, VALUE_1)
+    expect(stringStore.get(KEY_1)).toEqual(VALUE_1)
+    stringStore.set(KEY_2, "")
+    expect(stringStore.get(KEY_2)).toEqual("")
+    expect(stringStore.incr("counter", 5)).toEqual(5)
+    expect(stringStore.get("counter")).toEqual("5")
+
+    const rawStore = new BunSqliteKeyValue(undefined, {serializer: "raw"})
+    rawStore.set(KEY_1, Buffer.from([1, 2, 3]))
+    expect(rawStore.get(KEY_1)).toEqual(Buffer.from([1, 2, 3]))
+    rawStore.set(KEY_2, VALUE_1)
+    expect(rawStore.get<Buffer>(KEY_2)!.toString()).toEqual(VALUE_1)
+})
+
+
+test("Custom serializer", async () => {
+    const serializer = {
+        name: "upper-case",
+        serialize: (value: string) => new TextEncoder().encode(value.toUpperCase()),
+        deserialize: (data: Uint8Array) => new TextDecoder().decode(data),
+    }
+    const store = new BunSqliteKeyValue(undefined, {serializer})
+
+    store.set(KEY_1, "hello")
+    expect(store.get(KEY_1)).toEqual("HELLO")
+    expect(store.getItems()).toEqual([{key: KEY_1, value: "HELLO"}])
+    expect(store.getRandomItem()).toEqual({key: KEY_1, value: "HELLO"})
+    expect(store.db.query("SELECT value FROM settings WHERE name = 'serializer'").get()).toEqual({value: "upper-case"})
+})
+
+
+test("Compression", async () => {
+    const largeValue = VALUE_1.repeat(100)
+    for (const algorithm of ["gzip", "deflate", "zstd"] as const) {
+        const store = new BunSqliteKeyValue(undefined, {compression: {algorithm, minBytes: 100}})
+
+        store.set(KEY_1, largeValue)
+        store.set(KEY_2, VALUE_2)
+        const records = store.db.query("SELECT key, compression, LENGTH(value) AS length FROM items ORDER BY key").all()
+        expect(records).toEqual([
+            {key: KEY_1, compression: algorithm, length: expect.any(Number)},
+            {key: KEY_2, compression: null, length: expect.any(Number)},
+        ])
+        expect((records[0] as {length: number}).length).toBeLessThan(largeValue.length)
+        expect(store.get(KEY_1)).toEqual(largeValue)
+        expect(store.get(KEY_2)).toEqual(VALUE_2)
+        expect(store.getItems()).toEqual([{key: KEY_1, value: largeValue}, {key: KEY_2, value: VALUE_2}])
+        store.delete(KEY_2)
+        expect(store.getRandomItem()).toEqual({key: KEY_1, value: largeValue})
+
+        store.hSet(KEY_3, FIELD_1, largeValue)
+        expect(store.hGet(KEY_3, FIELD_1)).toEqual(largeValue)
+        expect(store.get(KEY_3)).toEqual(new Map([[FIELD_1, largeValue]]))
+        store.rPush("list", largeValue, VALUE_1)
+        expect(store.lRange("list", 0, -1)).toEqual([largeValue, VALUE_1])
+        expect(store.rPop("list", 2)).toEqual([VALUE_1, largeValue])
+        expect(store.db.query("SELECT compression FROM hash_fields").get()).toEqual({compression: algorithm})
+    }
+})
+
+
+test("Encryption", async () => {
+    const store = new BunSqliteKeyValue(undefined, {encryptionKey: "my-secret-key", compression: {minBytes: 10}})
+    const largeValue = VALUE_1.repeat(10)
+
+    store.set(KEY_1, VALUE_1)
+    store.set(KEY_2, largeValue)
+    store.hSet(KEY_3, FIELD_1, VALUE_1)
+    store.rPush("list", VALUE_1)
+    expect(store.get(KEY_1)).toEqual(VALUE_1)
+    expect(store.get(KEY_2)).toEqual(largeValue)
+    expect(store.hGet(KEY_3, FIELD_1)).toEqual(VALUE_1)
+    expect(store.lIndex("list", 0)).toEqual(VALUE_1)
+    const records = store.db.query("SELECT value FROM items WHERE value IS NOT NULL").all() as {value: Uint8Array}[]
+    records.forEach(({value}) => expect(Buffer.from(value).includes("Hello")).toBeFalse())
+
+    // Same value, different nonce
+    store.set(KEY_2, VALUE_1)
+    const [value1, value2] = (store.db.query("SELECT value FROM items WHERE key IN ($key1, $key2)")
+        .all({key1: KEY_1, key2: KEY_2}) as {value: Uint8Array}[]).map(({value}) => Buffer.from(value))
+    expect(value1.equals(value2)).toBeFalse()
+})
+
+
+test("Encrypted values are bound to their location", async () => {
+    const store = new BunSqliteKeyValue(undefined, {encryptionKey: "my-secret-key"})
+
+    // The key is stretched with a random salt
+    const setting = store.db.query("SELECT value FROM settings WHERE name = 'encryption_kdf'").get() as {value: string}
+    const kdfParams = JSON.parse(setting.value)
+    expect(kdfParams).toMatchObject({salt: expect.any(String), N: expect.any(Number)})
+
+    // Swapped cipher texts can't be decrypted
+    store.set(KEY_1, VALUE_1)
+    store.set(KEY_2, VALUE_2)
+    store.db.query("UPDATE items SET value = (SELECT value FROM items WHERE key = $key2) WHERE key = $key1")
+        .run({key1: KEY_1, key2: KEY_2})
+    expect(() => store.get(KEY_1)).toThrow()
+    store.hmSet(KEY_3, {[FIELD_1]: VALUE_1, [FIELD_2]: VALUE_2})
+    store.db.query("UPDATE hash_fields SET value = (SELECT value FROM hash_fields WHERE field = $field2) WHERE field = $field1")
+        .run({field1: FIELD_1, field2: FIELD_2})
+    expect(() => store.hGet(KEY_3, FIELD_1)).toThrow()
+    expect(store.hGet(KEY_3, FIELD_2)).toEqual(VALUE_2)
+
+    // Renamed items are re-encrypted
+    store.set(KEY_1, VALUE_1)
+    store.hSet("hash", FIELD_1, VALUE_1)
+    store.rPush("list", VALUE_1, VALUE_2)
+    store.rename(KEY_1, "renamed-value")
+    store.rename("hash", "renamed-hash")
+    store.rename("list", "renamed-list")
+    expect(store.get("renamed-value")).toEqual(VALUE_1)
+    expect(store.hGet("renamed-hash", FIELD_1)).toEqual(VALUE_1)
+    expect(store.lRange("renamed-list")).toEqual([VALUE_1, VALUE_2])
+})
+
+
+test("rotateEncryptionKey() with namespaces", async () => {
+    const store = new BunSqliteKeyValue(undefined, {encryptionKey: "key-1"})
+    const tenant = store.namespace("tenant")
+    const otherTenant = new BunSqliteKeyValue(store.db, {namespace: "other", encryptionKey: "other-key"})
+    store.set(KEY_1, VALUE_1)
+    tenant.set(KEY_1, VALUE_2)
+    otherTenant.set(KEY_1, VALUE_3)
+
+    // All namespaces with the old key are re-encrypted
+    store.rotateEncryptionKey("key-1", "key-2")
+    expect(store.get(KEY_1)).toEqual(VALUE_1)
+    expect(tenant.get(KEY_1)).toEqual(VALUE_2)
+    expect(store.namespace("tenant").get(KEY_1)).toEqual(VALUE_2)
+    expect(new BunSqliteKeyValue(store.db, {namespace: "tenant", encryptionKey: "key-2"}).get(KEY_1)).toEqual(VALUE_2)
+    expect(() => {
+        new BunSqliteKeyValue(store.db, {namespace: "tenant", encryptionKey: "key-1"})
+    }).toThrowError(ENCRYPTION_KEY_ERROR_LABEL)
+
+    // Namespaces with other keys are not changed
+    expect(otherTenant.get(KEY_1)).toEqual(VALUE_3)
+    expect(new BunSqliteKeyValue(store.db, {namespace: "other", encryptionKey: "other-key"}).get(KEY_1)).toEqual(VALUE_3)
+})
+
+
+test("rotateEncryptionKey()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.set(KEY_1, VALUE_1)
+    store.hSet(KEY_2, FIELD_1, VALUE_2)
+    store.rPush(KEY_3, VALUE_3)
+
+    store.rotateEncryptionKey(undefined, "key-1")
+    expect(store.get(KEY_1)).toEqual(VALUE_1)
+    expect(store.hGet(KEY_2, FIELD_1)).toEqual(VALUE_2)
+    expect(store.lIndex(KEY_3, 0)).toEqual(VALUE_3)
+    const record = store.db.query("SELECT value FROM items WHERE key = $key").get({key: KEY_1}) as {value: Uint8Array}
+    expect(Buffer.from(record.value).includes("Hello")).toBeFalse()
+
+    expect(() => {
+        store.rotateEncryptionKey("wrong-key", "key-2")
+    }).toThrowError(ENCRYPTION_KEY_ERROR_LABEL)
+    expect(() => {
+        store.rotateEncryptionKey(undefined, "key-2")
+    }).toThrowError(ENCRYPTION_KEY_ERROR_LABEL)
+    expect(store.get(KEY_1)).toEqual(VALUE_1)
+
+    store.rotateEncryptionKey("key-1", new Uint8Array(32).fill(7))
+    expect(store.getValues()).toEqual([VALUE_1, new Map([[FIELD_1, VALUE_2]]), [VALUE_3]])
+
+    store.rotateEncryptionKey(new Uint8Array(32).fill(7), undefined)
+    expect(store.get(KEY_1)).toEqual(VALUE_1)
+    expect(store.db.query("SELECT * FROM settings WHERE name = 'encryption_key_check'").get()).toBeNull()
+})
+
+
+test("scan(), scanItems()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    for (let index = 0; index < 25; index++) {
+        store.set(`user:${String(index).padStart(2, "0")}`, index)
+    }
+    store.set("other:1", "other")
+
+    let cursor: string | undefined
+    const keys: string[] = []
+    let pages: number = 0
+    do {
+        const result = store.scan(cursor, {prefix: "user:"})
+        cursor = result.cursor
+        keys.push(...result.keys)
+        pages++
+    } while (cursor !== undefined)
+    expect(pages).toEqual(3)
+    expect(keys).toHaveLength(25)
+    expect(keys[0]).toEqual("user:00")
+    expect(keys.at(-1)).toEqual("user:24")
+
+    expect(store.scan(undefined, {match: "user:?5"}).keys).toEqual(["user:05", "user:15"])
+    expect(store.scan(undefined, {count: 100}).cursor).toBeUndefined()
+
+    const page = store.scanItems<number>("user:21", {prefix: "user:", count: 2})
+    expect(page).toEqual({
+        cursor: "user:23",
+        items: [{key: "user:22", value: 22}, {key: "user:23", value: 23}]
+    })
+
+    expect(() => {
+        store.scan(undefined, {count: 0})
+    }).toThrowError(INVALID_COUNT_ERROR_LABEL)
+})
+
+
+test("scan() with expired items", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.set(KEY_1, VALUE_1, 30)
+    store.set(KEY_2, VALUE_2)
+    store.set(KEY_3, VALUE_3, 30)
+    await Bun.sleep(40)
+
+    const result = store.scan(undefined, {count: 3})
+    expect(result.keys).toEqual([KEY_2])
+    expect(result.cursor).toEqual(KEY_3)
+    expect(store.db.query("SELECT key FROM items").all()).toEqual([{key: KEY_2}])
+})
+
+
+test("iterateKeys(), iterateItems()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    for (let index = 0; index < 5; index++) {
+        store.set(`key:${index}`, index)
+    }
+    store.hSet(KEY_1, FIELD_1, VALUE_1)
+
+    expect(Array.from(store.iterateKeys({prefix: "key:", count: 2}))).toEqual([
+        "key:0", "key:1", "key:2", "key:3", "key:4"
+    ])
+    expect(Array.from(store.iterateItems({match: "test-*"}))).toEqual([
+        {key: KEY_1, value: new Map([[FIELD_1, VALUE_1]])}
+    ])
+
+    let count: number = 0
+    for (const key of store.iterateKeys({count: 1})) {
+        store.delete(key)
+        count++
+    }
+    expect(count).toEqual(6)
+    expect(store.getKeys()).toBeUndefined()
+})
+
+
+test("getKeys(), getItems() with glob and regex", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.set("user:1:session", "s1")
+    store.set("user:1:profile", "p1")
+    store.set("user:22:session", "s22")
+    store.set("log:2023-01", "l1")
+    store.set("log:2024-01", "l2")
+    store.set("log:2030-01", "l3")
+    store.set("expired:1", "e1", 30)
+    await Bun.sleep(40)
+
+    expect(store.getKeys({glob: "user:*:session"})).toEqual(["user:1:session", "user:22:session"])
+    expect(store.getKeys({glob: "log:202?-*"})).toEqual(["log:2023-01", "log:2024-01"])
+    expect(store.getKeys({glob: "*[0-9]"})).toEqual(["log:2023-01", "log:2024-01", "log:2030-01"])
+    expect(store.getKeys({glob: "expired:*"})).toBeUndefined()
+
+    expect(store.getKeys({regex: /^user:\d:/})).toEqual(["user:1:profile", "user:1:session"])
+    expect(store.getKeys({regex: /session$/g})).toEqual(["user:1:session", "user:22:session"])
+    expect(store.getKeys({regex: /^USER:/i})).toEqual(["user:1:profile", "user:1:session", "user:22:session"])
+
+    expect(store.getKeys({startsWith: "user:", glob: "*:profile"})).toEqual(["user:1:profile"])
+    expect(store.getKeys({startsWith: "log:", glob: "user:*"})).toBeUndefined()
+
+    expect(store.getItems({glob: "log:2030*"})).toEqual([{key: "log:2030-01", value: "l3"}])
+    expect(store.getValues({regex: /^log:2023/})).toEqual(["l1"])
+    expect(store.getItemsAsObject({startsWith: "user:22"})).toEqual({"user:22:session": "s22"})
+})
+
+
+test("getKeys(), getItems() with limit, offset, after and reverse", async () => {
+    const store = new BunSqliteKeyValue()
+
+    for (let index = 1; index <= 9; index++) {
+        store.set(`order:${index}`, index)
+    }
+    store.set("order:0", 0, 30)
+    store.set("other", "other")
+    await Bun.sleep(40)
+
+    expect(store.getKeys({startsWith: "order:", limit: 3})).toEqual(["order:1", "order:2", "order:3"])
+    expect(store.getKeys({startsWith: "order:", limit: 3, offset: 3})).toEqual(["order:4", "order:5", "order:6"])
+    expect(store.getKeys({startsWith: "order:", after: "order:7"})).toEqual(["order:8", "order:9"])
+    expect(store.getKeys({startsWith: "order:", reverse: true, limit: 2})).toEqual(["order:9", "order:8"])
+    expect(store.getKeys({reverse: true, after: "order:3", limit: 5})).toEqual(["order:2", "order:1"])
+    expect(store.getKeys({gte: "order:3", lt: "order:5"})).toEqual(["order:3", "order:4"])
+    expect(store.getKeys({regex: /^order:[13579]$/, offset: 1, limit: 2})).toEqual(["order:3", "order:5"])
+
+    expect(store.getValues({glob: "order:*", reverse: true, limit: 3})).toEqual([9, 8, 7])
+    expect(store.getItemsAsMap({startsWith: "order:", after: "order:8"})).toEqual(new Map([["order:9", 9]]))
+    expect(store.getItems({startsWith: "order:", limit: 0})).toBeUndefined()
+
+    expect(() => {
+        store.getKeys({limit: -1})
+    }).toThrowError(INVALID_COUNT_ERROR_LABEL)
+})
+
+
+test("createIndex(), findByIndex(), dropIndex()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    store.set("user:1", {name: "Alice", status: "active", age: 31, address: {city: "Vienna"}})
+    store.set("user:2", {name: "Bob", status: "inactive", age: 17})
+    store.set("other", "no object")
+    store.hSet("hash", "status", "active")
+
+    store.createIndex("status", "status")
+    store.createIndex("age", (user: {age?: number}) => user.age)
+    store.createIndex("city", "address.city")
+    store.createIndex("chars", (value, key) => Array.from(key.substring(0, 2)))
+
+    expect(store.findByIndex("status", "active")).toEqual([
+        {key: "user:1", value: {name: "Alice", status: "active", age: 31, address: {city: "Vienna"}}}
+    ])
+    expect(store.findByIndex("city", "Vienna")?.map(({key}) => key)).toEqual(["user:1"])
+    expect(store.findByIndex("status", "unknown")).toBeUndefined()
+
+    // Index is maintained by set() and setItems()
+    store.set("user:3", {name: "Carol", status: "active", age: 45}, 30)
+    store.setItems([{key: "user:4", value: {name: "Dave", status: "active", age: 18}}])
+    store.set("user:2", {name: "Bob", status: "active", age: 18})
+    expect(store.findByIndex("status", "active")?.map(({key}) => key)).toEqual(["user:1", "user:2", "user:3", "user:4"])
+    expect(store.findByIndex("status", "inactive")).toBeUndefined()
+
+    // Range (ordered by index value)
+    expect(store.findByIndex("age", {gte: 18, lt: 40})?.map(({key}) => key)).toEqual(["user:2", "user:4", "user:1"])
+    expect(store.findByIndex("age", {gt: 40})?.map(({key}) => key)).toEqual(["user:3"])
+    expect(store.findByIndex("status", {gte: 0})).toBeUndefined()
+
+    // Multiple values per item
+    expect(store.findByIndex("chars", "u")?.map(({key}) => key)).toEqual(["user:1", "user:2", "user:3", "user:4"])
+    expect(store.findByIndex("chars", "t")?.map(({key}) => key)).toEqual(["other"])
+
+    // Deleted, renamed and expired items
+    store.delete("user:1")
+    store.rename("user:2", "user:5")
+    await Bun.sleep(40)
+    expect(store.findByIndex("status", "active")?.map(({key}) => key)).toEqual(["user:4", "user:5"])
+
+    store.dropIndex("status")
+    expect(store.findByIndex("status", "active")).toBeUndefined()
+    store.set("user:6", {status: "active"})
+    expect(store.db.query("SELECT count(*) AS count FROM index_entries WHERE name = 'status'").get()).toEqual({count: 0})
+})
+
+
+test("Secondary indexes on encrypted databases", () => {
+    const store = new BunSqliteKeyValue(undefined, {encryptionKey: "my-secret-key"})
+    expect(() => {
+        store.createIndex("status", "status")
+    }).toThrowError(INDEX_ERROR_LABEL)
+
+    const otherStore = new BunSqliteKeyValue()
+    otherStore.createIndex("status", "status")
+    expect(() => {
+        otherStore.rotateEncryptionKey(undefined, "my-secret-key")
+    }).toThrowError(INDEX_ERROR_LABEL)
+    otherStore.dropIndex("status")
+    otherStore.rotateEncryptionKey(undefined, "my-secret-key")
+})
+
+
+test("query()", async () => {
+    const store = new BunSqliteKeyValue(":memory:", {serializer: "json"})
+
+    store.set("task:1", {status: "open", priority: 3, done: false, owner: {name: "Alice"}})
+    store.set("task:2", {status: "done", priority: 5, done: true, owner: {name: "Bob"}})
+    store.set("task:3", {status: "open", priority: 1, done: false})
+    store.set("task:4", {status: "open", priority: 9, done: false}, 30)
+    store.set("text", "open")
+    store.hSet("hash", "status", "open")
+    await Bun.sleep(40)
+
+    const keys = (options: Parameters<typeof store.query>[0]) => store.query(options)?.map(({key}) => key)
+
+    expect(keys({where: {"$.status": "open"}})).toEqual(["task:1", "task:3"])
+    expect(keys({where: {status: "open", priority: {gt: 2}}})).toEqual(["task:1"])
+    expect(keys({where: {"$.done": true}})).toEqual(["task:2"])
+    expect(keys({where: {"$.priority": {gte: 1, lte: 3}, "$.status": {ne: "done"}}})).toEqual(["task:1", "task:3"])
+    expect(keys({where: {"$.priority": {in: [1, 5]}}})).toEqual(["task:2", "task:3"])
+    expect(keys({where: {"$.owner.name": "Bob"}})).toEqual(["task:2"])
+    expect(keys({where: {"$.owner": {exists: false}, "$.status": {exists: true}}})).toEqual(["task:3"])
+    expect(keys({where: {"$.owner": null}})).toEqual(["task:3", "text"])
+    expect(keys({where: {"$.status": "unknown"}})).toBeUndefined()
+
+    expect(keys({orderBy: "$.priority"})).toEqual(["text", "task:3", "task:1", "task:2"])
+    expect(keys({orderBy: {path: "$.priority", reverse: true}, limit: 2})).toEqual(["task:2", "task:1"])
+    expect(keys({orderBy: ["$.status", {path: "$.priority", reverse: true}], limit: 2, offset: 2})).toEqual(["task:1", "task:3"])
+
+    expect(store.query({where: {"$.status": "done"}})).toEqual([
+        {key: "task:2", value: {status: "done", priority: 5, done: true, owner: {name: "Bob"}}}
+    ])
+
+    expect(() => {
+        store.query({where: {"$.status": {like: "o%"} as any}})
+    }).toThrowError(TypeError)
+    expect(() => {
+        new BunSqliteKeyValue().query()
+    }).toThrowError(QUERY_NOT_SUPPORTED_ERROR_LABEL)
+    expect(() => {
+        new BunSqliteKeyValue(":memory:", {serializer: "json", compression: "gzip"}).query()
+    }).toThrowError(QUERY_NOT_SUPPORTED_ERROR_LABEL)
+})
+
+
+test("namespace()", async () => {
+    const store = new BunSqliteKeyValue(":memory:", {changelog: true})
+    const tenantA = store.namespace("tenantA")
+    const tenantB = store.namespace("tenantB")
+
+    store.set(KEY_1, VALUE_1)
+    tenantA.set(KEY_1, VALUE_2, 30)
+    tenantA.hSet(KEY_2, FIELD_1, VALUE_2)
+    tenantA.addTag(KEY_2, "tag")
+    tenantB.set(KEY_1, VALUE_3)
+
+    expect(store.get(KEY_1)).toEqual(VALUE_1)
+    expect(tenantA.get(KEY_1)).toEqual(VALUE_2)
+    expect(tenantB.get(KEY_1)).toEqual(VALUE_3)
+    expect(tenantA.getCount()).toEqual(2)
+    expect(tenantA.getTaggedKeys("tag")).toEqual([KEY_2])
+    expect(tenantB.getTaggedKeys("tag")).toBeUndefined()
+    expect(new Set(tenantA.getChanges().map(({key}) => key))).toEqual(new Set([KEY_1, KEY_2]))
+    expect(store.getChanges().map(({key}) => key)).toEqual([KEY_1])
+
+    await Bun.sleep(40)
+    tenantA.deleteExpired()
+    expect(tenantA.getKeys()).toEqual([KEY_2])
+    expect(store.getKeys()).toEqual([KEY_1])
+
+    tenantB.clear()
+    expect(tenantB.getCount()).toEqual(0)
+    expect(store.getCount()).toEqual(1)
+    expect(tenantA.getCount()).toEqual(1)
+
+    // Closing a namespace store keeps the shared connection open
+    tenantA.close()
+    expect(store.get(KEY_1)).toEqual(VALUE_1)
+
+    const namespaceStore = new BunSqliteKeyValue(store.db, {namespace: "tenantA"})
+    expect(namespaceStore.hGet(KEY_2, FIELD_1)).toEqual(VALUE_2)
+
+    expect(() => {
+        store.namespace("tenant-a")
+    }).toThrowError(TypeError)
+})
+
+
+test("transaction()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    const total: number = store.transaction((tx) => {
+        tx.set("price", 20)
+        tx.set("quantity", 3)
+        const total = tx.get<number>("price")! * tx.get<number>("quantity")!
+        tx.set("total", total)
+        return total
+    })
+    expect(total).toEqual(60)
+    expect(store.get("total")).toEqual(60)
+
+    // Rollback on error
+    expect(() => {
+        store.transaction((tx) => {
+            tx.set("total", 0)
+            tx.rPush(KEY_1, VALUE_1)
+            throw new Error("Abort")
+        })
+    }).toThrowError("Abort")
+    expect(store.get("total")).toEqual(60)
+    expect(store.has(KEY_1)).toBeFalse()
+
+    // Nested transaction (savepoint)
+    store.transaction((tx) => {
+        tx.set(KEY_1, VALUE_1)
+        try {
+            tx.transaction((nestedTx) => {
+                nestedTx.set(KEY_2, VALUE_2)
+                throw new Error("Abort nested")
+            })
+        } catch {}
+    })
+    expect(store.get(KEY_1)).toEqual(VALUE_1)
+    expect(store.has(KEY_2)).toBeFalse()
+})
+
+
+test("transactionAsync()", async () => {
+    const store = new BunSqliteKeyValue()
+    store.set("counter", 0)
+
+    // Queued transactions don't interleave
+    const increment = () => store.transactionAsync(async (tx) => {
+        const value = tx.get<number>("counter")!
+        await Bun.sleep(5)
+        tx.set("counter", value + 1)
+        return value + 1
+    })
+    expect(await Promise.all([increment(), increment(), increment()])).toEqual([1, 2, 3])
+    expect(store.get("counter")).toEqual(3)
+
+    // Rollback on error
+    const error = await store.transactionAsync(async (tx) => {
+        tx.set("counter", 100)
+        await Bun.sleep(5)
+        throw new Error("Abort")
+    }).catch((error: Error) => error)
+    expect((error as Error).message).toEqual("Abort")
+    expect(store.get("counter")).toEqual(3)
+
+    // Nested transactions (savepoints)
+    await store.transactionAsync(async (tx) => {
+        tx.set(KEY_1, VALUE_1)
+        await tx.transactionAsync(async (nestedTx) => {
+            nestedTx.set(KEY_2, VALUE_2)
+        })
+        await tx.transactionAsync(async (nestedTx) => {
+            nestedTx.set(KEY_3, VALUE_3)
+            throw new Error("Abort nested")
+        }).catch(() => undefined)
+        tx.transaction((nestedTx) => nestedTx.incr("counter"))
+    })
+    expect(store.getKeys()?.sort()).toEqual(["counter", KEY_1, KEY_2])
+    expect(store.get("counter")).toEqual(4)
+    expect(store.db.inTransaction).toBeFalse()
+})
+
+
+test("getVersion(), setIfVersion(), compareAndSet()", async () => {
+    const store = new BunSqliteKeyValue()
+
+    expect(store.getVersion(KEY_1)).toBeUndefined()
+    expect(store.setIfVersion(KEY_1, VALUE_1, 1)).toBeFalse()
+    expect(store.setIfVersion(KEY_1, VALUE_1, 0)).toBeTrue()
+    expect(store.getVersion(KEY_1)).toEqual(1)
+    store.set(KEY_1, VALUE_2)
+    expect(store.getVersion(KEY_1)).toEqual(2)
+    expect(store.setIfVersion(KEY_1, VALUE_3, 1)).toBeFalse()
+    expect(store.setIfVersion(KEY_1, VALUE_3, 2)).toBeTrue()
+    expect(store.get(KEY_1)).toEqual(VALUE_3)
+
+    // Changes of hashes, lists and TTL increase the version
+    store.hSet(KEY_2, FIELD_1, VALUE_1)
+    const hashVersion = store.getVersion(KEY_2)!
+    store.hDelete(KEY_2, FIELD_1)
+    expect(store.getVersion(KEY_2)).toBeGreaterThan(hashVersion)
+    store.rPush(KEY_3, VALUE_1)
+    const listVersion = store.getVersion(KEY_3)!
+    store.lPop(KEY_3)
+    expect(store.getVersion(KEY_3)).toBeGreaterThan(listVersion)
+    const poppedVersion = store.getVersion(KEY_3)!
+    store.setTtl(KEY_3, 30)
+    expect(store.getVersion(KEY_3)).toEqual(poppedVersion + 1)
+    await Bun.sleep(40)
+    expect(store.getVersion(KEY_3)).toBeUndefined()
+
+    expect(store.compareAndSet("obj", undefined, {a: 1})).toBeTrue()
+    expect(store.compareAndSet("obj", {a: 2}, {a: 3})).toBeFalse()
+    expect(store.compareAndSet("obj", {a: 1}, {a: 3})).toBeTrue()
+    expect(store.get("obj")).toEqual({a: 3})
+})
+
+
+test("watchKeys()", async () => {
+    const store = new BunSqliteKeyValue()
+    store.set(KEY_1, 100)
+
+    const watchedKeys = store.watchKeys([KEY_1, KEY_2])
+    expect(watchedKeys).toEqual(new Map([[KEY_1, 1], [KEY_2, 0]]))
+    expect(store.transaction((tx) => tx.incr(KEY_1, 10), watchedKeys)).toEqual(110)
+
+    // KEY_1 was changed by the transaction
+    expect(() => {
+        store.transaction((tx) => tx.incr(KEY_1, 10), watchedKeys)
+    }).toThrowError(KEY_CHANGED_ERROR_LABEL)
+    expect(store.get(KEY_1)).toEqual(110)
+
+    const asyncWatchedKeys = store.watchKeys([KEY_2])
+    store.set(KEY_2, VALUE_2)
+    const error = await store.transactionAsync(async (tx) => tx.delete(KEY_2), asyncWatchedKeys)
+        .catch((error: Error) => error)
+    expect((error as Error).message).toStartWith(KEY_CHANGED_ERROR_LABEL)
+    expect(store.get(KEY_2)).toEqual(VALUE_2)
+})
+
+
+test("getItemMeta(), trackAccess", async () => {
+    const store = new BunSqliteKeyValue(undefined, {trackAccess: true})
+
+    expect(store.getItemMeta(KEY_1)).toBeUndefined()
+    const before = Date.now()
+    store.set(KEY_1, VALUE_1)
+    const meta = store.getItemMeta(KEY_1)!
+    expect(meta.created).toBeGreaterThanOrEqual(before)
+    expect(meta.updated).toEqual(meta.created)
+    expect(meta.version).toEqual(1)
+    expect(meta.hits).toEqual(0)
+    expect(meta.lastAccessed).toBeNull()
+    expect(meta.type).toBeNull()
+
+    // Changes keep the creation time
+    await Bun.sleep(5)
+    store.set(KEY_1, VALUE_2)
+    const changedMeta = store.getItemMeta(KEY_1)!
+    expect(changedMeta.created).toEqual(meta.created)
+    expect(changedMeta.updated).toBeGreaterThan(meta.updated!)
+
+    // Read accesses
+    store.get(KEY_1)
+    store.getItems([KEY_1])
+    const accessedMeta = store.getItemMeta(KEY_1)!
+    expect(accessedMeta.hits).toEqual(2)
+    expect(accessedMeta.lastAccessed).toBeGreaterThanOrEqual(changedMeta.updated!)
+    expect(accessedMeta.version).toEqual(changedMeta.version)
+
+    // Hashes and lists
+    store.hSet(KEY_2, FIELD_1, VALUE_1)
+    const hashMeta = store.getItemMeta(KEY_2)!
+    expect(hashMeta.type).toEqual("hash")
+    await Bun.sleep(5)
+    store.hSet(KEY_2, FIELD_2, VALUE_2)
+    expect(store.getItemMeta(KEY_2)!.updated).toBeGreaterThan(hashMeta.updated!)
+    store.hGet(KEY_2, FIELD_1)
+    expect(store.getItemMeta(KEY_2)!.hits).toEqual(1)
+    store.rPush(KEY_3, VALUE_1)
+    store.lIndex(KEY_3, 0)
+    expect(store.getItemMeta(KEY_3)).toMatchObject({type: "list", hits: 1})
+
+    // getItems() with metadata
+    const items = store.getItems({startsWith: KEY_1, withMeta: true})!
+    expect(items[0].meta).toMatchObject({created: meta.created, version: 2, hits: 2})
+    expect(store.getItemMeta(KEY_1)!.hits).toEqual(3)
+    expect(store.getItems({startsWith: KEY_1})![0].meta).toBeUndefined()
+
+    // Without trackAccess
+    const otherStore = new BunSqliteKeyValue()
+    otherStore.set(KEY_1, VALUE_1)
+    otherStore.get(KEY_1)
+    expect(otherStore.getItemMeta(KEY_1)).toMatchObject({hits: 0, lastAccessed: null})
+})
+
+
+test("Read accesses", async () => {
+    const store = new BunSqliteKeyValue(undefined, {trackAccess: true, serializer: "json"})
+    const getHits = (key: string) => store.getItemMeta(key)!.hits
+
+    // Each read access increases the hits by one
+    store.set("value", {status: "active"})
+    store.createIndex("status", "status")
+    const valueReads = [
+        () => store.get("value"),
+        () => store.getItems(["value"]),
+        () => store.getRandomItem(),
+        () => store.findByIndex("status", "active"),
+        () => store.query({where: {status: "active"}}),
+    ]
+    valueReads.forEach((read, index) => {
+        read()
+        expect(getHits("value")).toEqual(index + 1)
+    })
+    store.hSet("hash", FIELD_1, VALUE_1)
+    const hashReads = [
+        () => store.hGet("hash", FIELD_1),
+        () => store.hmGet("hash", [FIELD_1]),
+        () => store.hHasField("hash", FIELD_1),
+        () => store.hGetCount("hash"),
+        () => store.hGetFields("hash"),
+        () => store.hGetValues("hash"),
+    ]
+    hashReads.forEach((read, index) => {
+        read()
+        expect(getHits("hash")).toEqual(index + 1)
+    })
+    store.rPush("list", VALUE_1)
+    const listReads = [() => store.lIndex("list", 0), () => store.lRange("list"), () => store.lLen("list")]
+    listReads.forEach((read, index) => {
+        read()
+        expect(getHits("list")).toEqual(index + 1)
+    })
+    store.zAdd("zset", {[VALUE_1]: 1})
+    const sortedSetReads = [
+        () => store.zScore("zset", VALUE_1),
+        () => store.zRank("zset", VALUE_1),
+        () => store.zRevRank("zset", VALUE_1),
+        () => store.zRange("zset"),
+        () => store.zRevRange("zset"),
+        () => store.zRangeByScore("zset", 0, 10),
+        () => store.zCard("zset"),
+    ]
+    sortedSetReads.forEach((read, index) => {
+        read()
+        expect(getHits("zset")).toEqual(index + 1)
+    })
+
+    // Reads of keys and metadata and scans are no read accesses
+    store.has("value")
+    store.getKeys()
+    store.getRandomKey()
+    store.scanItems()
+    Array.from(store.iterateItems())
+    expect(getHits("value")).toEqual(valueReads.length)
+
+    // Sliding TTL
+    store.set("sliding", {status: "sliding"}, {ttlMs: 10000, slidingTtl: true})
+    const expiresAt = store.getExpiresAt("sliding")!
+    await Bun.sleep(5)
+    store.query({where: {status: "sliding"}})
+    expect(store.getExpiresAt("sliding")).toBeGreaterThan(expiresAt)
+})
+
+
+test("Eviction with maxItems", async () => {
+    // LRU: Read accesses protect the items
+    const lruStore = new BunSqliteKeyValue(undefined, {maxItems: 3, evictionLowWaterMark: 1})
+    const evictedKeys: string[] = []
+    lruStore.on("evict", "*", ({key}) => evictedKeys.push(key))
+    lruStore.set("a", 1)
+    await Bun.sleep(2)
+    lruStore.set("b", 2)
+    await Bun.sleep(2)
+    lruStore.set("c", 3)
+    await Bun.sleep(2)
+    lruStore.get("a")
+    await Bun.sleep(2)
+    lruStore.set("d", 4)
+    expect(lruStore.getKeys()).toEqual(["a", "c", "d"])
+    expect(evictedKeys).toEqual(["b"])
+
+    // LFU: Frequently read items are kept
+    const lfuStore = new BunSqliteKeyValue(undefined, {maxItems: 2, evictionPolicy: "lfu", evictionLowWaterMark: 1})
+    lfuStore.set("a", 1)
+    lfuStore.set("b", 2)
+    lfuStore.get("a")
+    lfuStore.get("a")
+    lfuStore.get("b")
+    lfuStore.set("c", 3)
+    expect(lfuStore.getKeys()).toEqual(["a", "c"])
+
+    // FIFO: Read accesses don't matter
+    const fifoStore = new BunSqliteKeyValue(undefined, {maxItems: 2, evictionPolicy: "fifo", evictionLowWaterMark: 1})
+    fifoStore.set("a", 1)
+    fifoStore.set("b", 2)
+    fifoStore.get("a")
+    fifoStore.rPush("c", 3)
+    expect(fifoStore.getKeys()).toEqual(["b", "c"])
+
+    // Volatile LRU: Only items with expiration time are evicted
+    const volatileStore = new BunSqliteKeyValue(undefined, {maxItems: 2, evictionPolicy: "volatile-lru", evictionLowWaterMark: 1})
+    volatileStore.set("a", 1)
+    volatileStore.set("b", 2, 10000)
+    volatileStore.set("c", 3)
+    expect(volatileStore.getKeys()).toEqual(["a", "c"])
+    volatileStore.set("d", 4)
+    expect(volatileStore.getKeys()).toEqual(["a", "c", "d"])
+
+    // Random: The written item is kept
+    const randomStore = new BunSqliteKeyValue(undefined, {maxItems: 2, evictionPolicy: "allkeys-random", evictionLowWaterMark: 1})
+    randomStore.setItems([{key: "a", value: 1}, {key: "b", value: 2}, {key: "c", value: 3}])
+    expect(randomStore.getCount()).toEqual(2)
+    expect(randomStore.has("c")).toBeTrue()
+
+    expect(() => new BunSqliteKeyValue(undefined, {maxItems: 2, evictionPolicy: "xyz" as "lru"}))
+        .toThrowError("Unknown eviction policy")
+})
+
+
+test("Eviction with maxBytes, evict()", async () => {
+    const store = new BunSqliteKeyValue(undefined, {maxBytes: 1000, evictionPolicy: "fifo", evictionLowWaterMark: 1, serializer: "raw"})
+    const value = new Uint8Array(300)
+    store.set("a", value)
+    store.set("b", value)
+    store.set("c", value)
+    expect(store.getSize()).toEqual(903)
+    store.set("d", value)
+    expect(store.getKeys()).toEqual(["b", "c", "d"])
+    expect(store.getSize()).toBeLessThanOrEqual(1000)
+
+    // Expired items are deleted before evicting
+    const otherStore = new BunSqliteKeyValue(store.db, {serializer: "raw"})
+    otherStore.set("e", value, 1)
+    expect(store.getSize()).toBeGreaterThan(1000)
+    await Bun.sleep(5)
+    expect(store.evict()).toEqual(0)
+    expect(store.getKeys()).toEqual(["b", "c", "d"])
+    otherStore.set("f", value)
+    expect(store.evict()).toEqual(1)
+    expect(store.getKeys()).toEqual(["c", "d", "f"])
+
+    // Without limits
+    expect(otherStore.evict()).toEqual(0)
+})
+
+
+test("Eviction down to the low-water mark, counters", () => {
+    const store = new BunSqliteKeyValue(undefined, {maxItems: 10, maxBytes: 10000, evictionPolicy: "fifo"})
+    const evictedKeys: string[] = []
+    store.on("evict", "*", ({key}) => evictedKeys.push(key))
+    store.setItems(Array.from({length: 10}, (_, index) => ({key: `key-${index}`, value: index})))
+    expect(evictedKeys).toEqual([])
+
+    // 11 items --> 9 items
+    store.set("key-10", 10)
+    expect(evictedKeys).toEqual(["key-0", "key-1"])
+    expect(store.getCount()).toEqual(9)
+    store.set("key-11", 11)
+    expect(store.getCount()).toEqual(10)
+
+    // The counters follow all writes
+    const getCounters = () => store.db.query("SELECT items, bytes FROM counters").get()
+    store.set("key-2", "replaced")
+    store.hSet("hash", "field", "value")
+    store.hSet("hash", "field", "other value")
+    store.rPush("list", "a", "b", "c")
+    store.lPop("list")
+    store.zAdd("zset", {member: 1})
+    store.rename("key-3", "renamed")
+    store.delete("key-4")
+    store.hDelete("hash", "field")
+    expect(getCounters()).toEqual({items: store.getCount(), bytes: store.getSize()})
+    store.clear()
+    expect(getCounters()).toEqual({items: 0, bytes: 0})
+
+    // Index of the eviction order
+    const plan = store.db.query(
+        "EXPLAIN QUERY PLAN SELECT key FROM items ORDER BY COALESCE(created, 0), rowid LIMIT 1"
+    ).all() as {detail: string}[]
+    expect(plan.some(({detail}) => detail.includes("ix_items_evict_fifo"))).toBeTrue()
+
+    expect(() => new BunSqliteKeyValue(undefined, {maxItems: 2, evictionLowWaterMark: 0}))
+        .toThrowError("low-water mark")
+})
+
+
+test("cleanupExpired(), cleanupIntervalMs", async () => {
+    const store = new BunSqliteKeyValue()
+    const expiredKeys: string[] = []
+    store.on("expire", "*", ({key}) => expiredKeys.push(key))
+    store.setItems(Array.from({length: 25}, (_, index) => ({key: `key-${index}`, value: index, ttlMs: 1})))
+    store.set(KEY_1, VALUE_1)
+    await Bun.sleep(5)
+    expect(store.cleanupExpired(10)).toEqual(25)
+    expect(store.getCount()).toEqual(1)
+    expect(expiredKeys.length).toEqual(25)
+    expect(store.cleanupExpired()).toEqual(0)
+    expect(() => store.cleanupExpired(0)).toThrowError(INVALID_COUNT_ERROR_LABEL)
+
+    // Periodic cleanup
+    const deletedCounts: number[] = []
+    const timerStore = new BunSqliteKeyValue(undefined, {
+        cleanupIntervalMs: 20,
+        onCleanup: (deletedCount) => deletedCounts.push(deletedCount)
+    })
+    timerStore.set(KEY_1, VALUE_1, 5)
+    timerStore.set(KEY_2, VALUE_2, 5)
+    timerStore.set(KEY_3, VALUE_3)
+    await Bun.sleep(50)
+    expect(deletedCounts[0]).toEqual(2)
+    expect(timerStore.getCount()).toEqual(1)
+    timerStore.close()
+    const runs = deletedCounts.length
+    await Bun.sleep(50)
+    expect(deletedCounts.length).toEqual(runs)
+})
+
+
+test("slidingTtl", async () => {
+    const store = new BunSqliteKeyValue(undefined, {ttlMs: 10000, slidingTtl: true})
+
+    store.set(KEY_1, VALUE_1)
+    store.hSet(KEY_2, FIELD_1, VALUE_1)
+    store.rPush(KEY_3, VALUE_1)
+    store.set("absolute", VALUE_1, {expiresAt: Date.now() + 10000})
+    const expiresAt1 = store.getExpiresAt(KEY_1)!
+    const expiresAt2 = store.getExpiresAt(KEY_2)!
+    const expiresAt3 = store.getExpiresAt(KEY_3)!
+    const absoluteExpiresAt = store.getExpiresAt("absolute")!
+    const version = store.getVersion(KEY_1)
+    await Bun.sleep(5)
+    expect(store.get(KEY_1)).toEqual(VALUE_1)
+    expect(store.hGet(KEY_2, FIELD_1)).toEqual(VALUE_1)
+    expect(store.lIndex(KEY_3, 0)).toEqual(VALUE_1)
+    expect(store.get("absolute")).toEqual(VALUE_1)
+    expect(store.getExpiresAt(KEY_1)).toBeGreaterThan(expiresAt1)
+    expect(store.getExpiresAt(KEY_2)).toBeGreaterThan(expiresAt2)
+    expect(store.getExpiresAt(KEY_3)).toBeGreaterThan(expiresAt3)
+    expect(store.getExpiresAt("absolute")).toEqual(absoluteExpiresAt)
+    // Renewing is not a change
+    expect(store.getVersion(KEY_1)).toEqual(version)
+
+    // Per item
+    const otherStore = new BunSqliteKeyValue()
+    otherStore.set(KEY_1, VALUE_1, {ttlMs: 10000, slidingTtl: true})
+    otherStore.set(KEY_2, VALUE_2, 10000)
+    otherStore.set(KEY_3, VALUE_3, {ttlMs: 10000, slidingTtl: true})
+    const expiresAts = [KEY_1, KEY_2, KEY_3].map((key) => otherStore.getExpiresAt(key)!)
+    await Bun.sleep(5)
+    expect(otherStore.getValues([KEY_1, KEY_2, KEY_3])).toEqual([VALUE_1, VALUE_2, VALUE_3])
+    expect(otherStore.getExpiresAt(KEY_1)).toBeGreaterThan(expiresAts[0])
+    expect(otherStore.getExpiresAt(KEY_2)).toEqual(expiresAts[1])
+    expect(otherStore.getExpiresAt(KEY_3)).toBeGreaterThan(expiresAts[2])
+
+    // keepTtl keeps the sliding TTL, persist() removes it
+    otherStore.set(KEY_1, VALUE_2, {keepTtl: true})
+    const keptExpiresAt = otherStore.getExpiresAt(KEY_1)!
+    await Bun.sleep(5)
+    otherStore.get(KEY_1)
+    expect(otherStore.getExpiresAt(KEY_1)).toBeGreaterThan(keptExpiresAt)
+    otherStore.persist(KEY_1)
+    otherStore.get(KEY_1)
+    expect(otherStore.getExpiresAt(KEY_1)).toBeUndefined()
+})